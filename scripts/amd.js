@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Loads the modules compiled to out/amd in Node, for the benchmark and the tests.
+// The monaco-editor-core imports of the sources are types only, so nothing of the editor is loaded.
+
+const requirejs = require('requirejs');
+const path = require('path');
+
+const REPO_ROOT = path.resolve(__dirname, '..');
+
+requirejs.config({
+	baseUrl: path.join(REPO_ROOT, 'out/amd'),
+	nodeRequire: require,
+	paths: {
+		'vs/language/css': path.join(REPO_ROOT, 'out/amd')
+	},
+	packages: [
+		{
+			name: 'vscode-css-languageservice',
+			location: path.join(REPO_ROOT, 'node_modules/vscode-css-languageservice/lib/umd'),
+			main: 'cssLanguageService'
+		},
+		{
+			name: 'vscode-languageserver-types',
+			location: path.join(REPO_ROOT, 'node_modules/vscode-languageserver-types/lib/umd'),
+			main: 'main'
+		},
+		{
+			name: 'vscode-languageserver-textdocument',
+			location: path.join(REPO_ROOT, 'node_modules/vscode-languageserver-textdocument/lib/umd'),
+			main: 'main'
+		},
+		{
+			name: 'vscode-uri',
+			location: path.join(REPO_ROOT, 'node_modules/vscode-uri/lib/umd'),
+			main: 'index'
+		},
+		{
+			name: 'vscode-nls',
+			location: path.join(REPO_ROOT, 'out/amd/fillers'),
+			main: 'vscode-nls'
+		}
+	]
+});
+
+/**
+ * @param {string} moduleId e.g. `vs/language/css/cssWorker`
+ */
+module.exports = function loadAmd(moduleId) {
+	return requirejs(moduleId);
+};
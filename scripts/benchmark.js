@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Measures the worker on a large style block with and without the document cache.
+// Run `npm run compile` first, the worker is loaded from out/amd.
+
+const loadAmd = require('./amd');
+
+const RULES = 500;
+const ROUNDS = 20;
+
+const { CSSInJSWorker } = loadAmd('vs/language/css/cssWorker');
+
+function createStyles() {
+	const lines = [];
+	for (let i = 0; i < RULES; i++) {
+		lines.push(
+			`color: #${(i % 4096).toString(16).padStart(3, '0')};`,
+			`&:nth-child(${i}) {`,
+			`  margin: ${i}px auto;`,
+			`  background: rgba(0, 0, ${i % 256}, 0.5);`,
+			`  border: 1px solid \${(props) => props.theme.border${i}};`,
+			'}'
+		);
+	}
+	return lines.join('\n');
+}
+
+function createContext(text) {
+	const model = { uri: { toString: () => 'inmemory://model/1' }, version: 1, getValue: () => text };
+	return { getMirrorModels: () => [model] };
+}
+
+/**
+ * One round is what the editor asks for after the cursor moved: a hover, the highlights,
+ * then the colors and the outline.
+ */
+async function measure(documentCacheSize) {
+	const worker = new CSSInJSWorker(createContext(createStyles()), {
+		languageId: 'cssInJs',
+		options: { documentCacheSize }
+	});
+	const uri = 'inmemory://model/1';
+	const position = { line: 2, character: 4 };
+	const start = process.hrtime.bigint();
+	for (let i = 0; i < ROUNDS; i++) {
+		await worker.doHover(uri, position);
+		await worker.findDocumentHighlights(uri, position);
+		await worker.findDocumentColors(uri);
+		await worker.findDocumentSymbols(uri);
+	}
+	return Number(process.hrtime.bigint() - start) / 1e6 / ROUNDS;
+}
+
+(async function () {
+	console.log(`${RULES * 6} lines, ${ROUNDS} rounds of hover, highlights, colors and symbols`);
+	const uncached = await measure(0);
+	console.log(`without cache: ${uncached.toFixed(1)} ms per round`);
+	const cached = await measure(20);
+	console.log(`with cache:    ${cached.toFixed(1)} ms per round`);
+	console.log(`speedup:       ${(uncached / cached).toFixed(1)}x`);
+})();
@@ -0,0 +1,285 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cssService from 'vscode-css-languageservice';
+import { scanString } from './templateInterpolation';
+import type { CompatConfiguration, CSSDialect } from './monaco.contribution';
+
+interface Entry {
+	name: string;
+	browsers?: string[];
+	status?: cssService.EntryStatus;
+}
+
+interface Target {
+	/** the browser code of the custom data, e.g. `FF` */
+	code: string;
+	name: string;
+	version: number;
+}
+
+const BROWSERS: { [name: string]: { code: string; name: string } } = {
+	chrome: { code: 'C', name: 'Chrome' },
+	edge: { code: 'E', name: 'Edge' },
+	firefox: { code: 'FF', name: 'Firefox' },
+	safari: { code: 'S', name: 'Safari' },
+	opera: { code: 'O', name: 'Opera' },
+	ie: { code: 'IE', name: 'Internet Explorer' }
+};
+
+/**
+ * Checks properties, their keyword values, at-rules and pseudo-selectors against the `browsers`
+ * and `status` of the CSS custom data, i.e. the data the language service bundles and the
+ * configured data providers.
+ */
+export class CompatibilityChecker {
+	private _targets: Target[];
+	private _properties: { [name: string]: cssService.IPropertyData } = Object.create(null);
+	private _atDirectives: { [name: string]: Entry } = Object.create(null);
+	private _pseudoSelectors: { [name: string]: Entry } = Object.create(null);
+
+	constructor(
+		providers: cssService.ICSSDataProvider[],
+		private _configuration: CompatConfiguration
+	) {
+		this._targets = parseTargets(_configuration.browsers || []);
+		for (const provider of providers) {
+			for (const property of provider.provideProperties()) {
+				this._properties[property.name.toLowerCase()] = property;
+			}
+			for (const atDirective of provider.provideAtDirectives()) {
+				this._atDirectives[atDirective.name.toLowerCase()] = atDirective;
+			}
+			for (const pseudo of provider
+				.providePseudoClasses()
+				.concat(provider.providePseudoElements())) {
+				this._pseudoSelectors[pseudo.name.toLowerCase()] = pseudo;
+			}
+		}
+	}
+
+	/**
+	 * Whether there are target browsers to check against, without them nothing is reported.
+	 */
+	public get enabled(): boolean {
+		return this._targets.length > 0;
+	}
+
+	public doValidation(
+		document: cssService.TextDocument,
+		dialect: CSSDialect
+	): cssService.Diagnostic[] {
+		if (!this.enabled) {
+			return [];
+		}
+		const text = document.getText();
+		const result: cssService.Diagnostic[] = [];
+		const report = (entry: Entry, kind: string, start: number, end: number) => {
+			const problem = this._check(entry);
+			if (problem) {
+				result.push({
+					range: { start: document.positionAt(start), end: document.positionAt(end) },
+					message: `${kind} \`${entry.name}\` ${problem.message}`,
+					severity: problem.severity,
+					code: 'compatibility',
+					source: 'compat'
+				});
+			}
+		};
+
+		scanStatements(text, dialect, (start, end, isPrelude) => {
+			const statement = text.substring(start, end);
+			if (isPrelude) {
+				const atRule = /^(\s*)(@[\w-]+)/.exec(statement);
+				if (atRule) {
+					const entry = this._atDirectives[atRule[2].toLowerCase()];
+					const nameStart = start + atRule[1].length;
+					if (entry) {
+						report(entry, 'At-rule', nameStart, nameStart + atRule[2].length);
+					}
+					return;
+				}
+				const pseudo = /::?[\w-]+/g;
+				let match: RegExpExecArray;
+				while ((match = pseudo.exec(statement))) {
+					const entry = this._pseudoSelectors[match[0].toLowerCase()];
+					if (entry) {
+						report(entry, 'Selector', start + match.index, start + match.index + match[0].length);
+					}
+				}
+				return;
+			}
+			const declaration = /^(\s*)([\w-]+)(\s*:\s*)([\s\S]*)$/.exec(statement);
+			if (!declaration || declaration[2].indexOf('--') === 0) {
+				return;
+			}
+			const property = this._properties[declaration[2].toLowerCase()];
+			if (!property) {
+				return;
+			}
+			const nameStart = start + declaration[1].length;
+			report(property, 'Property', nameStart, nameStart + declaration[2].length);
+
+			const valueStart = nameStart + declaration[2].length + declaration[3].length;
+			const keyword = /(^|[^\w#$@.-])([a-z][\w-]*)/gi;
+			let match: RegExpExecArray;
+			while ((match = keyword.exec(declaration[4]))) {
+				const name = match[2].toLowerCase();
+				const value = (property.values || []).filter(
+					(value) => value.name.toLowerCase() === name
+				)[0];
+				if (value) {
+					const keywordStart = valueStart + match.index + match[1].length;
+					report(value, 'Value', keywordStart, keywordStart + match[2].length);
+				}
+			}
+		});
+		return result;
+	}
+
+	private _check(
+		entry: Entry
+	): { message: string; severity: cssService.DiagnosticSeverity } | undefined {
+		const configuration = this._configuration;
+		if (entry.status === 'obsolete' && toSeverity(configuration.obsolete)) {
+			return { message: 'is obsolete', severity: toSeverity(configuration.obsolete) };
+		}
+		if (entry.status === 'experimental' && toSeverity(configuration.experimental)) {
+			return { message: 'is experimental', severity: toSeverity(configuration.experimental) };
+		}
+		// vendor prefixed names are written for the browsers that need them
+		if (
+			!entry.browsers ||
+			/^(::?|@)?-\w+-/.test(entry.name) ||
+			!toSeverity(configuration.unsupported)
+		) {
+			return undefined;
+		}
+		const unsupported = this._targets.filter((target) => !isSupported(entry.browsers, target));
+		if (!unsupported.length) {
+			return undefined;
+		}
+		return {
+			message:
+				'is not supported by ' +
+				unsupported.map((target) => `${target.name} ${target.version}`).join(', '),
+			severity: toSeverity(configuration.unsupported)
+		};
+	}
+}
+
+function toSeverity(
+	level: 'ignore' | 'warning' | 'error' | undefined
+): cssService.DiagnosticSeverity | undefined {
+	switch (level) {
+		case 'error':
+			return cssService.DiagnosticSeverity.Error;
+		case 'warning':
+			return cssService.DiagnosticSeverity.Warning;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Parses targets like `firefox 78` or `ie 11`, unknown browsers and queries are left out.
+ */
+function parseTargets(browsers: string[]): Target[] {
+	const result: Target[] = [];
+	for (const browser of browsers) {
+		const match = /^\s*(\w+)\s+(\d+(?:\.\d+)?)\s*$/.exec(browser);
+		const known = match && BROWSERS[match[1].toLowerCase()];
+		if (known) {
+			result.push({ code: known.code, name: known.name, version: parseFloat(match[2]) });
+		}
+	}
+	return result;
+}
+
+/**
+ * The custom data lists the first version of each supporting browser, e.g. `FF70`.
+ * A trailing `-` marks the last version that supports it, e.g. `IE8-`.
+ */
+function isSupported(browsers: string[], target: Target): boolean {
+	for (const browser of browsers) {
+		const match = /^([A-Z]+)([\d.]*)(-?)$/.exec(browser);
+		if (!match || match[1] !== target.code) {
+			continue;
+		}
+		const version = parseFloat(match[2]);
+		if (isNaN(version)) {
+			return true;
+		}
+		return match[3] ? target.version <= version : target.version >= version;
+	}
+	return false;
+}
+
+/**
+ * Calls `callback` with the extent of every statement: the prelude of a block, e.g. a selector,
+ * or a declaration. Comments, strings, unquoted `url(…)` contents and `#{…}` interpolations are
+ * skipped.
+ */
+function scanStatements(
+	text: string,
+	dialect: CSSDialect,
+	callback: (start: number, end: number, isPrelude: boolean) => void
+): void {
+	let start = 0;
+	let depth = 0;
+	let i = 0;
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (ch === '/' && text.charAt(i + 1) === '*') {
+			const end = text.indexOf('*/', i + 2);
+			i = end === -1 ? text.length : end + 2;
+			continue;
+		}
+		if (ch === '/' && text.charAt(i + 1) === '/' && dialect !== 'css') {
+			const end = text.indexOf('\n', i);
+			i = end === -1 ? text.length : end;
+			continue;
+		}
+		if (ch === '"' || ch === "'") {
+			i = scanString(text, i + 1, ch);
+			continue;
+		}
+		if (isUrlStart(text, i)) {
+			// an unquoted url may hold `//`, `;` or `{`, it ends at the first `)`
+			const end = text.indexOf(')', i);
+			i = end === -1 ? text.length : end + 1;
+			continue;
+		}
+		if ((ch === '#' || ch === '@') && text.charAt(i + 1) === '{') {
+			const end = text.indexOf('}', i);
+			i = end === -1 ? text.length : end + 1;
+			continue;
+		}
+		if (ch === '(') {
+			depth++;
+		} else if (ch === ')') {
+			depth = Math.max(0, depth - 1);
+		} else if (ch === '{') {
+			callback(start, i, true);
+			start = i + 1;
+		} else if (ch === '}' || (ch === ';' && depth === 0)) {
+			callback(start, i, false);
+			start = i + 1;
+		}
+		i++;
+	}
+	callback(start, text.length, false);
+}
+
+/**
+ * Whether an unquoted `url(` starts at `offset`, a quoted one is skipped as a string.
+ */
+function isUrlStart(text: string, offset: number): boolean {
+	if (!/^url\(/i.test(text.substr(offset, 4)) || /[\w-]/.test(text.charAt(offset - 1))) {
+		return false;
+	}
+	const argument = /^\s*(\S?)/.exec(text.substring(offset + 4, offset + 100));
+	return argument[1] !== '"' && argument[1] !== "'";
+}
@@ -43,7 +43,8 @@ export var language = {
 		{ open: '<', close: '>', token: 'delimiter.angle' }
 	],
 	tokenizer: {
-		root: [{ include: '@selector' }, { include: '@selectorbody' }],
+		// declarations and nested rules mix at the root of a template
+		root: [{ include: '@declaration' }, { include: '@selector' }, { include: '@selectorbody' }],
 		selector: [
 			{ include: '@comments' },
 			{ include: '@import' },
@@ -54,6 +55,7 @@ export var language = {
 				'[@](keyframes|-webkit-keyframes|-moz-keyframes|-o-keyframes)',
 				{ token: 'keyword', next: '@keyframedeclaration' }
 			],
+			['[@](property)', { token: 'keyword', next: '@propertydeclaration' }],
 			['[@](page|content|font-face|-moz-document)', { token: 'keyword' }],
 			['[@](charset|namespace)', { token: 'keyword', next: '@declarationbody' }],
 			['[@](function)', { token: 'keyword', next: '@functiondeclaration' }],
@@ -62,23 +64,40 @@ export var language = {
 			{ include: '@controlstatement' },
 			{ include: '@selectorname' },
 			['[&\\*]', 'tag'],
-			['[>\\+,]', 'delimiter'],
+			['[>\\+~,]', 'delimiter'],
 			['\\[', { token: 'delimiter.bracket', next: '@selectorattribute' }],
+			// arguments of pseudo-classes, e.g. `:is(.a, .b)`, `:has(> img)` or `:nth-child(2n)`
+			['\\(', { token: 'delimiter.parenthesis', next: '@selectorarguments' }],
 			['{', { token: 'delimiter.curly', next: '@selectorbody' }]
 		],
 		selectorbody: [
-			['[*_]?@identifier@ws:(?=(\\s|\\d|[^{;}]*[;}]))', 'attribute.name', '@rulevalue'],
+			{ include: '@declaration' },
 			{ include: '@selector' },
 			['[@](extend)', { token: 'keyword', next: '@extendbody' }],
 			['[@](return)', { token: 'keyword', next: '@declarationbody' }],
 			['}', { token: 'delimiter.curly', next: '@pop' }]
 		],
 		selectorname: [
+			{ include: '@interpolation' },
 			['#{', { token: 'meta', next: '@variableinterpolation' }],
 			['(\\.|#(?=[^{])|%|(@identifier)|:)+', 'tag'] // selector (.foo, div, ...)
 		],
+		selectorarguments: [
+			{ include: '@comments' },
+			{ include: '@selectorname' },
+			{ include: '@numbers' },
+			['[&\\*]', 'tag'],
+			['[>\\+~,]', 'delimiter'],
+			['\\[', { token: 'delimiter.bracket', next: '@selectorattribute' }],
+			['\\(', { token: 'delimiter.parenthesis', next: '@selectorarguments' }],
+			['\\)', { token: 'delimiter.parenthesis', next: '@pop' }]
+		],
+		declaration: [
+			['[*_]?@identifier@ws:(?=(\\s|\\d|[^{;}]*[;}]))', 'attribute.name', '@rulevalue']
+		],
 		selectorattribute: [{ include: '@term' }, [']', { token: 'delimiter.bracket', next: '@pop' }]],
 		term: [
+			{ include: '@interpolation' },
 			{ include: '@comments' },
 			['url(\\-prefix)?\\(', { token: 'meta', next: '@urldeclaration' }],
 			{ include: '@functioninvocation' },
@@ -140,6 +159,31 @@ export var language = {
 			{ include: '@variablereference' },
 			['}', { token: 'meta', next: '@pop' }]
 		],
+		interpolation: [
+			// template literal expression, e.g. `${props => props.color}`
+			['\\$\\{', { token: 'delimiter.interpolation', next: '@interpolationbody' }]
+		],
+		interpolationbody: [
+			['\\}', { token: 'delimiter.interpolation', next: '@pop' }],
+			{ include: '@interpolationexpression' }
+		],
+		interpolationblock: [
+			['\\}', { token: 'interpolation', next: '@pop' }],
+			{ include: '@interpolationexpression' }
+		],
+		interpolationexpression: [
+			['\\{', { token: 'interpolation', next: '@interpolationblock' }],
+			['`', { token: 'interpolation', next: '@interpolationtemplate' }],
+			['"([^"\\\\]|\\\\.)*"?', 'interpolation'],
+			["'([^'\\\\]|\\\\.)*'?", 'interpolation'],
+			['[^{}`"\']+', 'interpolation']
+		],
+		interpolationtemplate: [
+			['\\$\\{', { token: 'delimiter.interpolation', next: '@interpolationbody' }],
+			['\\\\.', 'interpolation'],
+			['`', { token: 'interpolation', next: '@pop' }],
+			['[^`$\\\\]+|\\$', 'interpolation']
+		],
 		comments: [
 			['\\/\\*', 'comment', '@comment'],
 			['\\/\\/+.*', 'comment']
@@ -155,7 +199,7 @@ export var language = {
 		],
 		units: [
 			[
-				'(em|ex|ch|rem|vmin|vmax|vw|vh|vm|cm|mm|in|px|pt|pc|deg|grad|rad|turn|s|ms|Hz|kHz|%)?',
+				'(em|ex|ch|rem|rex|rch|ric|rlh|lh|cap|ic|[dsl]?v(min|max|w|h|i|b)|vm|cq(min|max|w|h|i|b)|cm|mm|Q|in|px|pt|pc|fr|deg|grad|rad|turn|s|ms|Hz|kHz|dpi|dpcm|dppx|x|%)?',
 				'number',
 				'@pop'
 			]
@@ -194,16 +238,27 @@ export var language = {
 			['{', { token: 'delimiter.curly', next: '@selectorbody' }],
 			['}', { token: 'delimiter.curly', next: '@pop' }]
 		],
+		propertydeclaration: [
+			['@identifier', 'meta'],
+			['{', { token: 'delimiter.curly', switchTo: '@propertybody' }]
+		],
+		propertybody: [
+			['(syntax|inherits|initial-value)@ws:', 'attribute.name', '@rulevalue'],
+			{ include: '@comments' },
+			['}', { token: 'delimiter.curly', next: '@pop' }]
+		],
 		controlstatement: [
 			[
-				'[@](if|else|for|while|each|media)',
+				'[@](if|else|for|while|each|media|container|layer|supports)',
 				{ token: 'keyword.flow', next: '@controlstatementdeclaration' }
 			]
 		],
 		controlstatementdeclaration: [
 			['(in|from|through|if|to)\\b', { token: 'keyword.flow' }],
 			{ include: '@term' },
-			['{', { token: 'delimiter.curly', switchTo: '@selectorbody' }]
+			['{', { token: 'delimiter.curly', switchTo: '@selectorbody' }],
+			// a statement without a block, e.g. `@layer base, components;`
+			[';', 'delimiter', '@pop']
 		],
 		functionbody: [
 			['[@](return)', { token: 'keyword' }],
@@ -236,3 +291,44 @@ export var language = {
 		]
 	}
 };
+
+// Plain CSS has no variables, but keeps the `${…}` interpolations of the templates.
+export var cssLanguage = {
+	...language,
+	tokenPostfix: '.css',
+	tokenizer: {
+		...language.tokenizer,
+		variabledeclaration: [],
+		variablereference: [],
+		selectorname: [
+			{ include: '@interpolation' },
+			['(\\.|#(?=[^{])|%|(@identifier)|:)+', 'tag'] // selector (.foo, div, ...)
+		]
+	}
+};
+
+export var lessLanguage = {
+	...language,
+	tokenPostfix: '.less',
+	tokenizer: {
+		...language.tokenizer,
+		variabledeclaration: [
+			// less variables
+			['[@]@identifier@ws:', 'variable.decl', '@declarationbody']
+		],
+		variablereference: [
+			// less variable reference
+			['[@]@identifier', 'variable.ref'],
+			['[@]{', { token: 'meta', next: '@variableinterpolation' }] // less var resolve
+		],
+		variableinterpolation: [
+			['@identifier', 'variable.ref'],
+			['}', { token: 'meta', next: '@pop' }]
+		],
+		selectorname: [
+			{ include: '@interpolation' },
+			['[@]{', { token: 'meta', next: '@variableinterpolation' }],
+			['(\\.|#(?=[^{])|%|(@identifier)|:)+', 'tag'] // selector (.foo, div, ...)
+		]
+	}
+};
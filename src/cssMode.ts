@@ -3,23 +3,27 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { CSSInJSWorker } from './cssWorker';
 import {
 	IEditorInjection,
 	ILanguagesInjection,
-	LanguageServiceDefaults
+	LanguageServiceDefaults,
+	StyleSyntax
 } from './monaco.contribution';
 import * as languageFeatures from './languageFeatures';
+import { WorkerAccessor } from './languageFeatures';
+import { ThemeTokenService } from './themeTokens';
+import { findTaggedTemplates } from './taggedTemplates';
 import { Uri, IDisposable } from './fillers/monaco-editor-core';
 
 export function setupMode(
-	worker: CSSInJSWorker,
+	worker: WorkerAccessor,
 	defaults: LanguageServiceDefaults,
 	editor: IEditorInjection,
 	languages: ILanguagesInjection
 ): IDisposable {
 	const disposables: IDisposable[] = [];
 	const providers: IDisposable[] = [];
+	const themeTokens = new ThemeTokenService(defaults);
 
 	function registerProviders(): void {
 		const { languageId, modeConfiguration } = defaults;
@@ -30,7 +34,7 @@ export function setupMode(
 			providers.push(
 				languages.registerCompletionItemProvider(
 					languageId,
-					new languageFeatures.CompletionAdapter(worker, editor)
+					new languageFeatures.CompletionAdapter(worker, editor, themeTokens)
 				)
 			);
 		}
@@ -38,7 +42,15 @@ export function setupMode(
 			providers.push(
 				languages.registerHoverProvider(
 					languageId,
-					new languageFeatures.HoverAdapter(worker, editor)
+					new languageFeatures.HoverAdapter(worker, editor, themeTokens)
+				)
+			);
+		}
+		if (modeConfiguration.signatureHelp) {
+			providers.push(
+				languages.registerSignatureHelpProvider(
+					languageId,
+					new languageFeatures.SignatureHelpAdapter(worker)
 				)
 			);
 		}
@@ -86,7 +98,7 @@ export function setupMode(
 			providers.push(
 				languages.registerColorProvider(
 					languageId,
-					new languageFeatures.DocumentColorAdapter(worker, editor)
+					new languageFeatures.DocumentColorAdapter(worker, editor, themeTokens)
 				)
 			);
 		}
@@ -107,10 +119,146 @@ export function setupMode(
 				)
 			);
 		}
+		if (modeConfiguration.inlayHints && languages.registerInlayHintsProvider) {
+			providers.push(
+				languages.registerInlayHintsProvider(
+					languageId,
+					new languageFeatures.InlayHintsAdapter(worker, languages, themeTokens)
+				)
+			);
+		}
+		if (modeConfiguration.semanticTokens) {
+			providers.push(
+				languages.registerDocumentSemanticTokensProvider(
+					languageId,
+					new languageFeatures.DocumentSemanticTokensAdapter(worker)
+				)
+			);
+		}
+		if (modeConfiguration.codeActions) {
+			providers.push(
+				languages.registerCodeActionProvider(
+					languageId,
+					new languageFeatures.CodeActionAdapter(worker, editor)
+				)
+			);
+		}
+		if (modeConfiguration.documentFormattingEdits) {
+			providers.push(
+				languages.registerDocumentFormattingEditProvider(
+					languageId,
+					new languageFeatures.DocumentFormattingEditAdapter(worker, editor)
+				)
+			);
+		}
+		if (modeConfiguration.documentRangeFormattingEdits) {
+			providers.push(
+				languages.registerDocumentRangeFormattingEditProvider(
+					languageId,
+					new languageFeatures.DocumentRangeFormattingEditAdapter(worker, editor)
+				)
+			);
+		}
 	}
 
 	registerProviders();
 
+	let modeConfiguration = defaults.modeConfiguration;
+	disposables.push(
+		defaults.onDidChange((newDefaults) => {
+			if (newDefaults.modeConfiguration !== modeConfiguration) {
+				modeConfiguration = newDefaults.modeConfiguration;
+				registerProviders();
+			}
+		})
+	);
+
+	disposables.push(asDisposable(providers));
+
+	return asDisposable(disposables);
+}
+
+/**
+ * Registers the features that make sense for styles written in the syntax of another language,
+ * e.g. JavaScript, for each of `hostLanguageIds`. `syntax` tells whether the styles are templates
+ * embedded in the models or the object styles the models are made of.
+ */
+export function setupEmbeddedMode(
+	worker: WorkerAccessor,
+	defaults: LanguageServiceDefaults,
+	editor: IEditorInjection,
+	languages: ILanguagesInjection,
+	hostLanguageIds: string[],
+	syntax: StyleSyntax = 'embedded'
+): IDisposable {
+	const disposables: IDisposable[] = [];
+	const providers: IDisposable[] = [];
+	// theme tokens are only looked for inside the templates, an object style model is styles throughout
+	const themeTokens = new ThemeTokenService(
+		defaults,
+		syntax === 'embedded'
+			? (text) => findTaggedTemplates(text, defaults.options.embedded || {})
+			: undefined
+	);
+
+	function registerProviders(): void {
+		const { modeConfiguration } = defaults;
+
+		disposeAll(providers);
+
+		for (const languageId of hostLanguageIds) {
+			if (modeConfiguration.completionItems) {
+				providers.push(
+					languages.registerCompletionItemProvider(
+						languageId,
+						new languageFeatures.CompletionAdapter(worker, editor, themeTokens)
+					)
+				);
+			}
+			if (modeConfiguration.hovers) {
+				providers.push(
+					languages.registerHoverProvider(
+						languageId,
+						new languageFeatures.HoverAdapter(worker, editor, themeTokens)
+					)
+				);
+			}
+			if (modeConfiguration.colors) {
+				providers.push(
+					languages.registerColorProvider(
+						languageId,
+						new languageFeatures.DocumentColorAdapter(worker, editor, themeTokens)
+					)
+				);
+			}
+		}
+	}
+
+	registerProviders();
+
+	let modeConfiguration = defaults.modeConfiguration;
+	disposables.push(
+		defaults.onDidChange((newDefaults) => {
+			if (newDefaults.modeConfiguration !== modeConfiguration) {
+				modeConfiguration = newDefaults.modeConfiguration;
+				registerProviders();
+			}
+		})
+	);
+
+	// the markers are owned by the css-in-js language, so they don't replace those of the host language
+	for (const languageId of hostLanguageIds) {
+		disposables.push(
+			new languageFeatures.DiagnosticsAdapter(
+				languageId,
+				worker,
+				editor,
+				defaults,
+				defaults.languageId
+			)
+		);
+	}
+
 	disposables.push(asDisposable(providers));
 
 	return asDisposable(disposables);
@@ -4,27 +4,170 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as cssService from 'vscode-css-languageservice';
-import { editor } from './fillers/monaco-editor-core';
+import { InsertReplaceEdit, SignatureHelp } from 'vscode-languageserver-types';
+import { worker } from './fillers/monaco-editor-core';
+import { MappedDocument, OffsetMapBuilder } from './documentMapping';
+import { DocumentCache } from './documentCache';
+import { VariableIndex } from './variableIndex';
+import { getHoverPreview } from './hoverPreviews';
+import { findInlayHints } from './inlayHints';
+import { findSemanticTokens } from './semanticTokens';
+import { getSignatureHelp } from './signatureHelp';
+import { CompatibilityChecker } from './compatibility';
+import { modernCssData } from './modernCssData';
+import { runLintRules, toFixCommand } from './lintRules';
+import { appendWithPlaceholders } from './templateInterpolation';
+import { findTaggedTemplates, TaggedTemplateKind } from './taggedTemplates';
+import { appendObjectStyles, toObjectStyleCompletion } from './objectStyles';
+import type {
+	CSSDialect,
+	EmbeddedConfiguration,
+	HoverConfiguration,
+	Options,
+	RegisteredLintRule,
+	StyleSyntax
+} from './monaco.contribution';
+
+// The language service only understands declarations inside a rule, so the user text
+// is wrapped in one. Everything returned to the editor is mapped back through the wrapper.
+const WRAPPER_PREFIX = '.this-element {\n';
+const WRAPPER_SUFFIX = '\n}';
+
+// Templates embedded in JavaScript are wrapped according to what their tag produces.
+const EMBEDDED_WRAPPERS: { [kind in TaggedTemplateKind]: { prefix: string; suffix: string } } = {
+	style: { prefix: WRAPPER_PREFIX, suffix: WRAPPER_SUFFIX },
+	keyframes: { prefix: '@keyframes this-animation {\n', suffix: '\n}' },
+	globalStyle: { prefix: '', suffix: '' }
+};
+
+const DEFAULT_DOCUMENT_CACHE_SIZE = 20;
+
+// the at-rules that may be nested in a rule, the language service only completes at-rules at
+// the top level, where the wrapped user text never is
+const NESTED_AT_RULES = ['@media', '@supports', '@container', '@layer'];
 
 export class CSSInJSWorker {
+	private _ctx: worker.IWorkerContext;
 	private _languageService: cssService.LanguageService;
+	private _parser: cssService.LanguageService;
+	private _dialect: CSSDialect;
+	private _languageId: string;
+	private _formatSettings: cssService.CSSFormatConfiguration;
+	private _hoverSettings: HoverConfiguration;
+	private _rootFontSize: number;
+	private _syntax: StyleSyntax;
+	private _embeddedConfiguration: EmbeddedConfiguration;
+	private _documents: DocumentCache;
+	private _variables: VariableIndex;
+	private _compatibility: CompatibilityChecker;
+	private _nestedAtRules: cssService.IAtDirectiveData[];
+	private _knownProperties: Set<string>;
+	private _lintRules: RegisteredLintRule[] = [];
+	private _validate: boolean;
+	private _libraryDocuments: MappedDocument[];
+	// the models the editor asked about, the other mirror models may not hold styles
+	private _modelUris = new Set<string>();
+	// the ids of the running requests of a web worker proxy that were cancelled
+	private _cancelledRequests = new Set<number>();
+
+	/**
+	 * @param ctx the mirror models the worker serves. A worker created without one, as with
+	 * `new CSSInJSWorker()` on the main thread, serves the models of the editor once it is passed
+	 * to a setup function, see `attachContext`.
+	 */
+	constructor(ctx?: worker.IWorkerContext, createData?: ICreateData) {
+		this._ctx = ctx;
+		this._languageId = createData ? createData.languageId : 'cssInJs';
+		this._syntax = (createData && createData.syntax) || 'template';
+		this._dialect = (createData && createData.dialect) || 'scss';
+		this._variables = new VariableIndex(this._dialect);
+
+		this.setOptions(createData && createData.options);
+		this.setLibraryDocuments(createData && createData.libraryDocuments);
+	}
 
-	constructor() {
-		// this._languageService = cssService.getCSSLanguageService(lsOptions);
-		this._languageService = cssService.getSCSSLanguageService({
-			useDefaultDataProvider: true
+	/**
+	 * Rebuilds the language service from `options`, e.g. after the defaults changed.
+	 */
+	setOptions(options: Options): void {
+		options = options || {};
+		this._formatSettings = options.format || {};
+		this._hoverSettings = options.hover || {};
+		this._rootFontSize = (options.inlayHints && options.inlayHints.rootFontSize) || 16;
+		this._embeddedConfiguration = options.embedded || {};
+		this._validate = options.validate !== false;
+		// documents built with the previous options are of no use anymore
+		this._documents = new DocumentCache(
+			typeof options.documentCacheSize === 'number'
+				? options.documentCacheSize
+				: DEFAULT_DOCUMENT_CACHE_SIZE
+		);
+		const data = options.data;
+		const useDefaultDataProvider = !data || data.useDefaultDataProvider !== false;
+		const customDataProviders: cssService.ICSSDataProvider[] = [];
+		if (data && data.dataProviders) {
+			for (const id in data.dataProviders) {
+				customDataProviders.push(cssService.newCSSDataProvider(data.dataProviders[id]));
+			}
+		}
+		// the data bundled with the language service predates container queries, layers and
+		// registered custom properties
+		const modernDataProviders = useDefaultDataProvider
+			? [cssService.newCSSDataProvider(modernCssData)]
+			: [];
+		const dataProviders = useDefaultDataProvider
+			? [cssService.getDefaultCSSDataProvider()].concat(modernDataProviders, customDataProviders)
+			: customDataProviders;
+		this._compatibility = new CompatibilityChecker(
+			dataProviders,
+			(this._validate && options.compat) || {}
+		);
+		this._nestedAtRules = [];
+		this._knownProperties = new Set<string>();
+		for (const provider of dataProviders) {
+			for (const property of provider.provideProperties()) {
+				this._knownProperties.add(property.name.toLowerCase());
+			}
+			for (const atDirective of provider.provideAtDirectives()) {
+				if (NESTED_AT_RULES.indexOf(atDirective.name) !== -1) {
+					this._nestedAtRules.push(atDirective);
+				}
+			}
+		}
+		const lsOptions: cssService.LanguageServiceOptions = {
+			customDataProviders: modernDataProviders.concat(customDataProviders),
+			useDefaultDataProvider
+		};
+
+		this._languageService = createLanguageService(this._dialect, lsOptions);
+		// the CSS parser of vscode-css-languageservice 5 rejects nested rules, the SCSS parser
+		// accepts them and builds nodes the CSS features understand
+		this._parser =
+			this._dialect === 'css'
+				? cssService.getSCSSLanguageService(lsOptions)
+				: this._languageService;
+		this._languageService.configure({
+			validate: options.validate,
+			lint: options.lint
 		});
-		this._languageService.configure();
 	}
 
 	// --- language service host ---------------
 
-	async doValidation(uri: string, model: editor.IReadOnlyModel): Promise<cssService.Diagnostic[]> {
-		let document = this._getTextDocument(uri, model);
+	async doValidation(uri: string, token?: RequestToken): Promise<cssService.Diagnostic[]> {
+		let document = await this._getTextDocument(uri, token);
 		if (document) {
-			let stylesheet = this._languageService.parseStylesheet(document);
-			let diagnostics = this._languageService.doValidation(document, stylesheet);
-			return Promise.resolve(diagnostics);
+			let stylesheet = this._parseStylesheet(document);
+			let diagnostics = this._languageService.doValidation(document.document, stylesheet);
+			diagnostics = diagnostics.concat(
+				this._compatibility.doValidation(document.document, this._dialect)
+			);
+			// the lint rules report in the user document already
+			return Promise.resolve(
+				this._mapDiagnostics(document, diagnostics).concat(
+					this._runLintRules(document, stylesheet).map((problem) => problem.diagnostic)
+				)
+			);
 		}
 		return Promise.resolve([]);
 	}
@@ -32,184 +175,964 @@ export class CSSInJSWorker {
 	async doComplete(
 		uri: string,
 		position: cssService.Position,
-		model: editor.IReadOnlyModel
+		token?: RequestToken
 	): Promise<cssService.CompletionList> {
-		let document = this._getTextDocument(uri, model);
-
-		let stylesheet = this._languageService.parseStylesheet(document);
-		let completions = this._languageService.doComplete(document, this.mapPos(position), stylesheet);
-
-		return Promise.resolve(completions);
+		let document = await this._getTextDocument(uri, token);
+		let generatedPosition = document && document.toGeneratedPosition(position);
+		if (!generatedPosition) {
+			return Promise.resolve(null);
+		}
+		let stylesheet = this._parseStylesheet(document);
+		let completions = this._languageService.doComplete(
+			document.document,
+			generatedPosition,
+			stylesheet
+		);
+		completions = this._appendNestedAtRules(document.document, generatedPosition, completions);
+		return Promise.resolve(this._mapCompletionList(document, completions));
 	}
-	mapPos(position: cssService.Position): cssService.Position {
-		return position;
+
+	async getSignatureHelp(
+		uri: string,
+		position: cssService.Position,
+		token?: RequestToken
+	): Promise<SignatureHelp> {
+		let document = await this._getTextDocument(uri, token);
+		let generatedPosition = document && document.toGeneratedPosition(position);
+		if (!generatedPosition) {
+			return Promise.resolve(null);
+		}
+		let stylesheet = this._parseStylesheet(document);
+		return Promise.resolve(
+			getSignatureHelp(
+				document.document.getText(),
+				document.document.offsetAt(generatedPosition),
+				stylesheet
+			)
+		);
 	}
 
 	async doHover(
 		uri: string,
 		position: cssService.Position,
-		model: editor.IReadOnlyModel
+		token?: RequestToken
 	): Promise<cssService.Hover> {
-		let document = this._getTextDocument(uri, model);
-		let stylesheet = this._languageService.parseStylesheet(document);
-		let hover = this._languageService.doHover(document, this.mapPos(position), stylesheet);
-		return Promise.resolve(hover as any);
+		let document = await this._getTextDocument(uri, token);
+		let generatedPosition = document && document.toGeneratedPosition(position);
+		if (!generatedPosition) {
+			return Promise.resolve(null);
+		}
+		let stylesheet = this._parseStylesheet(document);
+		let hover = this._languageService.doHover(document.document, generatedPosition, stylesheet);
+		const preview = getHoverPreview(
+			document.document.getText(),
+			document.document.offsetAt(generatedPosition),
+			this._hoverSettings
+		);
+		if (preview) {
+			hover = {
+				contents: appendMarkdown(hover && hover.contents, preview.markdown),
+				range: (hover && hover.range) || {
+					start: document.document.positionAt(preview.start),
+					end: document.document.positionAt(preview.end)
+				}
+			};
+		}
+		if (hover && hover.range) {
+			hover.range = document.toSourceRange(hover.range, true) || undefined;
+		}
+		return Promise.resolve(hover);
 	}
 
 	async findDefinition(
 		uri: string,
 		position: cssService.Position,
-		model: editor.IReadOnlyModel
+		token?: RequestToken
 	): Promise<cssService.Location> {
-		let document = this._getTextDocument(uri, model);
-		let stylesheet = this._languageService.parseStylesheet(document);
+		let document = await this._getTextDocument(uri, token);
+		let generatedPosition = document && document.toGeneratedPosition(position);
+		if (!generatedPosition) {
+			return Promise.resolve(null);
+		}
+		let stylesheet = this._parseStylesheet(document);
 		let definition = this._languageService.findDefinition(
-			document,
-			this.mapPos(position),
+			document.document,
+			generatedPosition,
 			stylesheet
 		);
-		return Promise.resolve(definition as any);
+		if (!definition) {
+			// declared in another model or in a library document
+			const documents = await this._getIndexedDocuments(document, token);
+			if (!documents) {
+				return null;
+			}
+			const name = this._variables.getVariableAt(document, position, documents);
+			const declaration = this._variables
+				.findOccurrences(name, documents)
+				.filter(({ occurrence }) => occurrence.declaration)[0];
+			return Promise.resolve(
+				declaration
+					? { uri: declaration.document.source.uri, range: declaration.occurrence.range }
+					: null
+			);
+		}
+		return Promise.resolve(this._mapLocation(document, definition));
 	}
 
 	async findReferences(
 		uri: string,
 		position: cssService.Position,
-		model: editor.IReadOnlyModel
+		token?: RequestToken
 	): Promise<cssService.Location[]> {
-		let document = this._getTextDocument(uri, model);
-		let stylesheet = this._languageService.parseStylesheet(document);
+		let document = await this._getTextDocument(uri, token);
+		let generatedPosition = document && document.toGeneratedPosition(position);
+		if (!generatedPosition) {
+			return Promise.resolve([]);
+		}
+		const documents = await this._getIndexedDocuments(document, token);
+		if (!documents) {
+			return [];
+		}
+		const name = this._variables.getVariableAt(document, position, documents);
+		if (name) {
+			return Promise.resolve(
+				this._variables.findOccurrences(name, documents).map(({ document, occurrence }) => ({
+					uri: document.source.uri,
+					range: occurrence.range
+				}))
+			);
+		}
+		let stylesheet = this._parseStylesheet(document);
 		let references = this._languageService.findReferences(
-			document,
-			this.mapPos(position),
+			document.document,
+			generatedPosition,
 			stylesheet
 		);
-		return Promise.resolve(references);
+		return Promise.resolve(
+			references.map((reference) => this._mapLocation(document, reference)).filter(Boolean)
+		);
 	}
 
 	async findDocumentHighlights(
 		uri: string,
 		position: cssService.Position,
-		model: editor.IReadOnlyModel
+		token?: RequestToken
 	): Promise<cssService.DocumentHighlight[]> {
-		let document = this._getTextDocument(uri, model);
-		let stylesheet = this._languageService.parseStylesheet(document);
+		let document = await this._getTextDocument(uri, token);
+		let generatedPosition = document && document.toGeneratedPosition(position);
+		if (!generatedPosition) {
+			return Promise.resolve([]);
+		}
+		let stylesheet = this._parseStylesheet(document);
 		let highlights = this._languageService.findDocumentHighlights(
-			document,
-			this.mapPos(position),
+			document.document,
+			generatedPosition,
 			stylesheet
 		);
-		return Promise.resolve(highlights);
+		return Promise.resolve(mapRanges(highlights, (range) => document.toSourceRange(range, true)));
 	}
 
 	async findDocumentSymbols(
 		uri: string,
-		model: editor.IReadOnlyModel
-	): Promise<cssService.SymbolInformation[]> {
-		let document = this._getTextDocument(uri, model);
-		let stylesheet = this._languageService.parseStylesheet(document);
-		let symbols = this._languageService.findDocumentSymbols(document, stylesheet);
-		return Promise.resolve(symbols);
+		token?: RequestToken
+	): Promise<cssService.DocumentSymbol[]> {
+		let document = await this._getTextDocument(uri, token);
+		if (!document) {
+			return Promise.resolve([]);
+		}
+		let stylesheet = this._parseStylesheet(document);
+		let symbols = this._languageService.findDocumentSymbols(document.document, stylesheet);
+		let result: cssService.DocumentSymbol[] = [];
+		for (let symbol of symbols) {
+			// symbols starting in the wrapper (the wrapper rule itself) are dropped,
+			// a rule that is not closed ends with the user text
+			if (!document.toSourcePosition(symbol.location.range.start)) {
+				continue;
+			}
+			let range = document.toSourceRange(symbol.location.range, true);
+			if (range) {
+				result.push(toDocumentSymbol(document, symbol, range));
+			}
+		}
+		return Promise.resolve(nestSymbols(result));
 	}
 
 	async doCodeActions(
 		uri: string,
 		range: cssService.Range,
 		context: cssService.CodeActionContext,
-		model: editor.IReadOnlyModel
+		token?: RequestToken
 	): Promise<cssService.Command[]> {
-		let document = this._getTextDocument(uri, model);
-		let stylesheet = this._languageService.parseStylesheet(document);
+		let document = await this._getTextDocument(uri, token);
+		let generatedRange = document && document.toGeneratedRange(range);
+		if (!generatedRange) {
+			return Promise.resolve([]);
+		}
+		let stylesheet = this._parseStylesheet(document);
+		let generatedContext: cssService.CodeActionContext = {
+			...context,
+			diagnostics: mapRanges(context.diagnostics, (r) => document.toGeneratedRange(r))
+		};
 		let actions = this._languageService.doCodeActions(
-			document,
-			this.mapRange(range),
-			context,
+			document.document,
+			generatedRange,
+			generatedContext,
 			stylesheet
 		);
-		return Promise.resolve(actions);
+		let commands: cssService.Command[] = actions.map((action) => {
+			// '_css.applyCodeAction' commands carry [uri, version, edits]
+			let args = action.arguments;
+			if (args && Array.isArray(args[2])) {
+				args = [args[0], args[1], document.toSourceTextEdits(args[2])];
+			}
+			return { ...action, arguments: args };
+		});
+		const fixes = this._runLintRules(document, stylesheet)
+			.filter(
+				(problem) =>
+					problem.fix &&
+					context.diagnostics.some(
+						(diagnostic) =>
+							diagnostic.code === problem.diagnostic.code &&
+							isSameRange(diagnostic.range, problem.diagnostic.range)
+					)
+			)
+			.map((problem) => toFixCommand(document, problem.fix));
+		return Promise.resolve(commands.concat(fixes));
 	}
 
 	async findDocumentColors(
 		uri: string,
-		model: editor.IReadOnlyModel
+		token?: RequestToken
 	): Promise<cssService.ColorInformation[]> {
-		let document = this._getTextDocument(uri, model);
-		let stylesheet = this._languageService.parseStylesheet(document);
-		let colorSymbols = this._languageService.findDocumentColors(document, stylesheet);
-		return Promise.resolve(colorSymbols);
+		let document = await this._getTextDocument(uri, token);
+		if (!document) {
+			return Promise.resolve([]);
+		}
+		let stylesheet = this._parseStylesheet(document);
+		let colorSymbols = this._languageService.findDocumentColors(document.document, stylesheet);
+		return Promise.resolve(
+			mapRanges(colorSymbols, (range) => document.toSourceRange(range, false))
+		);
 	}
 
 	async getColorPresentations(
 		uri: string,
 		color: cssService.Color,
 		range: cssService.Range,
-		model: editor.IReadOnlyModel
+		token?: RequestToken
 	): Promise<cssService.ColorPresentation[]> {
-		let document = this._getTextDocument(uri, model);
-		let stylesheet = this._languageService.parseStylesheet(document);
+		let document = await this._getTextDocument(uri, token);
+		let generatedRange = document && document.toGeneratedRange(range);
+		if (!generatedRange) {
+			return Promise.resolve([]);
+		}
+		let stylesheet = this._parseStylesheet(document);
 		let colorPresentations = this._languageService.getColorPresentations(
-			document,
+			document.document,
 			stylesheet,
 			color,
-			this.mapRange(range)
+			generatedRange
+		);
+		return Promise.resolve(
+			colorPresentations.map((presentation) => {
+				let textEdit =
+					presentation.textEdit && document.toSourceTextEdits([presentation.textEdit])[0];
+				return {
+					...presentation,
+					textEdit,
+					additionalTextEdits: document.toSourceTextEdits(presentation.additionalTextEdits)
+				};
+			})
 		);
-		return Promise.resolve(colorPresentations);
-	}
-	mapRange(range: cssService.Range): cssService.Range {
-		return {
-			start: this.mapPos(range.start),
-			end: this.mapPos(range.end)
-		};
 	}
 
 	async getFoldingRanges(
 		uri: string,
-		model: editor.IReadOnlyModel,
-		context?: { rangeLimit?: number }
+		context?: { rangeLimit?: number },
+		token?: RequestToken
 	): Promise<cssService.FoldingRange[]> {
-		let document = this._getTextDocument(uri, model);
-		let ranges = this._languageService.getFoldingRanges(document, context);
-		return Promise.resolve(ranges);
+		let document = await this._getTextDocument(uri, token);
+		if (!document) {
+			return Promise.resolve([]);
+		}
+		let ranges = this._languageService.getFoldingRanges(document.document, context);
+		let result: cssService.FoldingRange[] = [];
+		for (let range of ranges) {
+			let startLine = document.toSourceLine(range.startLine);
+			let endLine = document.toSourceLine(range.endLine);
+			if (startLine !== null && endLine !== null && startLine < endLine) {
+				result.push({ ...range, startLine, endLine });
+			}
+		}
+		return Promise.resolve(result);
 	}
 
 	async getSelectionRanges(
 		uri: string,
 		positions: cssService.Position[],
-		model: editor.IReadOnlyModel
+		token?: RequestToken
 	): Promise<cssService.SelectionRange[]> {
-		let document = this._getTextDocument(uri, model);
-		let stylesheet = this._languageService.parseStylesheet(document);
-		let ranges = this._languageService.getSelectionRanges(
-			document,
-			positions.map(this.mapPos),
-			stylesheet
-		);
-		return Promise.resolve(ranges);
+		let document = await this._getTextDocument(uri, token);
+		if (!document) {
+			return Promise.resolve([]);
+		}
+		let stylesheet = this._parseStylesheet(document);
+		let result: cssService.SelectionRange[] = [];
+		for (let position of positions) {
+			let generatedPosition = document.toGeneratedPosition(position);
+			let ranges = generatedPosition
+				? this._languageService.getSelectionRanges(
+						document.document,
+						[generatedPosition],
+						stylesheet
+				  )
+				: [];
+			result.push(
+				mapSelectionRange(document, ranges[0]) || {
+					range: { start: position, end: position }
+				}
+			);
+		}
+		return Promise.resolve(result);
 	}
 
 	async doRename(
 		uri: string,
 		position: cssService.Position,
 		newName: string,
-		model: editor.IReadOnlyModel
+		token?: RequestToken
 	): Promise<cssService.WorkspaceEdit> {
-		let document = this._getTextDocument(uri, model);
-		let stylesheet = this._languageService.parseStylesheet(document);
+		let document = await this._getTextDocument(uri, token);
+		let generatedPosition = document && document.toGeneratedPosition(position);
+		if (!generatedPosition) {
+			return Promise.resolve(null);
+		}
+		const documents = await this._getIndexedDocuments(document, token);
+		if (!documents) {
+			return null;
+		}
+		const name = this._variables.getVariableAt(document, position, documents);
+		if (name) {
+			const occurrences = this._variables.findOccurrences(name, documents);
+			const libraryDeclaration = occurrences.filter(
+				({ document, occurrence }) =>
+					occurrence.declaration && this._libraryDocuments.indexOf(document) !== -1
+			)[0];
+			if (libraryDeclaration) {
+				// the declaration would keep its name and the renamed references would point at nothing
+				throw new Error(
+					`Cannot rename \`${name}\`, it is declared in the library document ${libraryDeclaration.document.source.uri}`
+				);
+			}
+			const changes: { [uri: string]: cssService.TextEdit[] } = {};
+			for (let { document, occurrence } of occurrences) {
+				if (this._libraryDocuments.indexOf(document) === -1) {
+					const edits = changes[document.source.uri] || (changes[document.source.uri] = []);
+					edits.push({ range: occurrence.range, newText: newName });
+				}
+			}
+			return Promise.resolve({ changes });
+		}
+		let stylesheet = this._parseStylesheet(document);
 		let renames = this._languageService.doRename(
-			document,
-			this.mapPos(position),
+			document.document,
+			generatedPosition,
 			newName,
 			stylesheet
 		);
+		if (renames && renames.changes) {
+			let changes: { [uri: string]: cssService.TextEdit[] } = {};
+			for (let changeUri in renames.changes) {
+				changes[changeUri] =
+					changeUri === uri
+						? document.toSourceTextEdits(renames.changes[changeUri])
+						: renames.changes[changeUri];
+			}
+			renames = { ...renames, changes };
+		}
 		return Promise.resolve(renames);
 	}
 
-	private _getTextDocument(uri: string, model: editor.IReadOnlyModel): cssService.TextDocument {
-		if (!model) return null;
+	async format(
+		uri: string,
+		range: cssService.Range | null,
+		options: cssService.CSSFormatConfiguration,
+		token?: RequestToken
+	): Promise<cssService.TextEdit[]> {
+		let document = await this._getTextDocument(uri, token);
+		// the formatter only knows about a single wrapper rule in a template
+		if (!document || this._syntax !== 'template') {
+			return Promise.resolve([]);
+		}
+		let settings: cssService.CSSFormatConfiguration = { ...this._formatSettings, ...options };
+		let indent = settings.insertSpaces ? repeat(' ', settings.tabSize || 4) : '\t';
+
+		if (!range) {
+			let edits = this._languageService.format(document.document, undefined, {
+				...settings,
+				insertFinalNewline: false
+			});
+			let text = edits.length ? edits[0].newText : document.document.getText();
+			// the wrapper rule must still open the text and close it on a line of its own,
+			// otherwise the user text has unbalanced braces
+			let match = /^\.this-element\s*\{[ \t]*\n([\s\S]*)\n\}$/.exec(text.replace(/\s+$/, ''));
+			if (!match) {
+				return Promise.resolve([]);
+			}
+			let newText = dedent(match[1].split('\n'), indent).join('\n').replace(/\s+$/, '');
+			newText = document.toSourceText(newText);
+			if (settings.insertFinalNewline) {
+				newText += '\n';
+			}
+			let source = document.source;
+			return Promise.resolve([
+				{
+					range: { start: source.positionAt(0), end: source.positionAt(source.getText().length) },
+					newText
+				}
+			]);
+		}
+
+		let generatedRange = document.toGeneratedRange(range);
+		if (!generatedRange) {
+			return Promise.resolve([]);
+		}
+		let edits = this._languageService.format(document.document, generatedRange, settings);
+		let result: cssService.TextEdit[] = [];
+		for (let edit of edits) {
+			let editRange = document.toSourceRange(edit.range, false);
+			if (!editRange) {
+				continue;
+			}
+			let newText = edit.newText;
+			// the formatter indents a range that starts inside a rule by one more level,
+			// at the root that rule is the wrapper
+			if (isInRule(document.document.getText(), document.document.offsetAt(edit.range.start))) {
+				let lines = newText.split('\n');
+				newText = [lines[0]].concat(dedent(lines.slice(1), indent)).join('\n');
+			}
+			result.push({ range: editRange, newText: document.toSourceText(newText) });
+		}
+		return Promise.resolve(result);
+	}
+
+	/**
+	 * Returns the pixels of `rem` and `em` lengths and the results of constant `calc()` expressions
+	 * inside `range`.
+	 */
+	async getInlayHints(
+		uri: string,
+		range: cssService.Range,
+		token?: RequestToken
+	): Promise<IInlayHint[]> {
+		let document = await this._getTextDocument(uri, token);
+		if (!document) {
+			return Promise.resolve([]);
+		}
+		const start = document.source.offsetAt(range.start);
+		const end = document.source.offsetAt(range.end);
+		const result: IInlayHint[] = [];
+		for (let hint of findInlayHints(document.document.getText(), this._rootFontSize)) {
+			const offset = document.map.toSource(hint.offset, 'end');
+			if (offset !== undefined && start <= offset && offset <= end) {
+				result.push({ position: document.source.positionAt(offset), text: hint.text });
+			}
+		}
+		return Promise.resolve(result);
+	}
+
+	async getSemanticTokens(uri: string, token?: RequestToken): Promise<ISemanticToken[]> {
+		let document = await this._getTextDocument(uri, token);
+		if (!document) {
+			return Promise.resolve([]);
+		}
+		const stylesheet = this._parseStylesheet(document);
+		const tokens = findSemanticTokens(document, stylesheet, (name) =>
+			this._knownProperties.has(name)
+		);
+		return Promise.resolve(
+			tokens.map((semanticToken) => {
+				const start = document.source.positionAt(semanticToken.start);
+				return {
+					line: start.line,
+					character: start.character,
+					length: semanticToken.end - semanticToken.start,
+					tokenType: semanticToken.tokenType,
+					tokenModifiers: semanticToken.tokenModifiers
+				};
+			})
+		);
+	}
+
+	/**
+	 * Replaces the style sheets whose custom properties and variables are found in addition to
+	 * those of the models. They are not wrapped, and never edited.
+	 */
+	async setLibraryDocuments(documents: { [uri: string]: string }): Promise<void> {
+		this._libraryDocuments = [];
+		for (let uri in documents || {}) {
+			const source = cssService.TextDocument.create(uri, this._languageId, 0, documents[uri]);
+			const builder = new OffsetMapBuilder();
+			builder.appendSource(documents[uri], 0);
+			this._libraryDocuments.push(MappedDocument.create(source, 'emotionCss', builder));
+		}
+	}
+
+	/**
+	 * Replaces the custom lint rules. They only reach a worker on the main thread.
+	 */
+	async setLintRules(rules: RegisteredLintRule[]): Promise<void> {
+		this._lintRules = rules || [];
+	}
+
+	/**
+	 * Gives a worker created without a context the models it serves. A worker that has a context
+	 * keeps it. Only a worker on the main thread can be given one.
+	 */
+	attachContext(ctx: worker.IWorkerContext): void {
+		if (!this._ctx) {
+			this._ctx = ctx;
+		}
+	}
 
-		const value = `.this-element {
-		 ${model.getValue() || ''}
-		}`;
+	/**
+	 * Cancels the request a web worker proxy made with `requestId` in place of a token.
+	 */
+	async cancelRequest(requestId: number): Promise<void> {
+		this._cancelledRequests.add(requestId);
+	}
 
-		return cssService.TextDocument.create(uri, 'emotionCss', model.getVersionId(), value);
+	/**
+	 * Drops what the worker cached for the model at `uri`, e.g. because the model is being disposed.
+	 */
+	async releaseDocument(uri: string): Promise<void> {
+		this._documents.delete(uri);
+		this._modelUris.delete(uri);
+	}
+
+	private _runLintRules(document: MappedDocument, stylesheet: cssService.Stylesheet) {
+		return this._validate ? runLintRules(document, stylesheet, this._lintRules) : [];
+	}
+
+	private _parseStylesheet(document: MappedDocument): cssService.Stylesheet {
+		return this._documents.getStylesheet(document, (document) =>
+			this._parser.parseStylesheet(document.document)
+		);
+	}
+
+	/**
+	 * Returns `null` if the request was cancelled while it waited for the worker or while the
+	 * document was parsed, so that every method answers with an empty result.
+	 */
+	private async _getTextDocument(uri: string, token?: RequestToken): Promise<MappedDocument> {
+		if (this._stopIfCancelled(token)) {
+			return null;
+		}
+		const document = this._getModelDocument(uri);
+		if (document && token !== undefined) {
+			this._parseStylesheet(document);
+			if (await this._stopIfCancelledMeanwhile(token)) {
+				return null;
+			}
+		}
+		return document;
+	}
+
+	private _getModelDocument(uri: string): MappedDocument {
+		for (let model of this._getMirrorModels()) {
+			if (model.uri.toString() === uri) {
+				let document = this._documents.getDocument(uri, model.version);
+				if (!document) {
+					document = this._createDocument(uri, model.version, model.getValue() || '');
+					this._documents.setDocument(uri, model.version, document);
+				}
+				this._modelUris.add(uri);
+				return document;
+			}
+		}
+		this._documents.delete(uri);
+		this._modelUris.delete(uri);
+		return null;
+	}
+
+	private _getMirrorModels(): worker.IMirrorModel[] {
+		return this._ctx ? this._ctx.getMirrorModels() : [];
+	}
+
+	/**
+	 * Whether the request made with `token` was cancelled. The request must then stop: the id of
+	 * a cancelled web worker request is forgotten.
+	 */
+	private _stopIfCancelled(token: RequestToken | undefined): boolean {
+		if (typeof token === 'number') {
+			return this._cancelledRequests.delete(token);
+		}
+		return !!token && token.isCancellationRequested;
+	}
+
+	/**
+	 * Like `_stopIfCancelled`, once the tasks waiting for the worker ran: a cancellation only
+	 * reaches a web worker in a message, and a token on the main thread in an editor event.
+	 */
+	private async _stopIfCancelledMeanwhile(token: RequestToken): Promise<boolean> {
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		return this._stopIfCancelled(token);
+	}
+
+	/**
+	 * The documents whose variables are visible from `document`: itself first, then the other models
+	 * the editor asked about and the library documents. Returns `null` if the request was cancelled
+	 * while the other models were indexed.
+	 */
+	private async _getIndexedDocuments(
+		document: MappedDocument,
+		token?: RequestToken
+	): Promise<MappedDocument[]> {
+		const result = [document];
+		for (let model of this._getMirrorModels()) {
+			const uri = model.uri.toString();
+			if (uri !== document.source.uri && this._modelUris.has(uri)) {
+				const other = this._getModelDocument(uri);
+				if (other) {
+					this._variables.getOccurrences(other);
+					if (token !== undefined && (await this._stopIfCancelledMeanwhile(token))) {
+						return null;
+					}
+					result.push(other);
+				}
+			}
+		}
+		return result.concat(this._libraryDocuments);
+	}
+
+	private _createDocument(uri: string, version: number, value: string): MappedDocument {
+		const source = cssService.TextDocument.create(uri, this._languageId, version, value);
+
+		const builder = new OffsetMapBuilder();
+		if (this._syntax === 'embedded') {
+			let placeholderCount = 0;
+			for (let template of findTaggedTemplates(value, this._embeddedConfiguration)) {
+				const wrapper = EMBEDDED_WRAPPERS[template.kind];
+				builder.appendSynthetic(wrapper.prefix);
+				placeholderCount += appendWithPlaceholders(
+					builder,
+					value.substring(template.start, template.end),
+					template.start,
+					placeholderCount
+				).length;
+				builder.appendSynthetic(wrapper.suffix + '\n');
+			}
+		} else if (this._syntax === 'object') {
+			builder.appendSynthetic(WRAPPER_PREFIX);
+			appendObjectStyles(builder, value);
+			builder.appendSynthetic(WRAPPER_SUFFIX);
+		} else {
+			builder.appendSynthetic(WRAPPER_PREFIX);
+			appendWithPlaceholders(builder, value);
+			builder.appendSynthetic(WRAPPER_SUFFIX);
+		}
+
+		return MappedDocument.create(source, 'emotionCss', builder);
+	}
+
+	private _mapDiagnostics(
+		document: MappedDocument,
+		diagnostics: cssService.Diagnostic[]
+	): cssService.Diagnostic[] {
+		// diagnostics about the placeholders of `${…}` expressions are not the user's concern
+		return mapRanges(
+			diagnostics.filter((diagnostic) => !document.overlapsPlaceholder(diagnostic.range)),
+			(range) => document.toSourceRange(range, true)
+		);
+	}
+
+	/**
+	 * Completes the at-rules that may be nested when the word at `position` starts with `@`.
+	 */
+	private _appendNestedAtRules(
+		document: cssService.TextDocument,
+		position: cssService.Position,
+		list: cssService.CompletionList
+	): cssService.CompletionList {
+		const offset = document.offsetAt(position);
+		const match = /(?:^|[\s;{}])(@[\w-]*)$/.exec(document.getText().substring(0, offset));
+		if (!match) {
+			return list;
+		}
+		list = list || { isIncomplete: false, items: [] };
+		const range = {
+			start: document.positionAt(offset - match[1].length),
+			end: position
+		};
+		const labels = list.items.map((item) => item.label);
+		for (const atRule of this._nestedAtRules) {
+			if (labels.indexOf(atRule.name) === -1) {
+				labels.push(atRule.name);
+				list.items.push({
+					label: atRule.name,
+					kind: cssService.CompletionItemKind.Keyword,
+					documentation: atRule.description,
+					textEdit: cssService.TextEdit.replace(range, atRule.name)
+				});
+			}
+		}
+		return list;
+	}
+
+	private _mapCompletionList(
+		document: MappedDocument,
+		list: cssService.CompletionList
+	): cssService.CompletionList {
+		if (!list) {
+			return list;
+		}
+		let items: cssService.CompletionItem[] = [];
+		for (let item of list.items) {
+			let textEdit = item.textEdit;
+			if (textEdit) {
+				if (InsertReplaceEdit.is(textEdit)) {
+					let insert = document.toSourceRange(textEdit.insert, false);
+					let replace = document.toSourceRange(textEdit.replace, false);
+					textEdit = insert && replace ? { ...textEdit, insert, replace } : null;
+				} else {
+					let range = document.toSourceRange(textEdit.range, false);
+					textEdit = range ? { ...textEdit, range } : null;
+				}
+				if (!textEdit) {
+					// the item would edit the wrapper
+					continue;
+				}
+			}
+			let mapped: cssService.CompletionItem = {
+				...item,
+				textEdit,
+				additionalTextEdits: document.toSourceTextEdits(item.additionalTextEdits)
+			};
+			items.push(this._syntax === 'object' ? toObjectStyleCompletion(mapped) : mapped);
+		}
+		return { ...list, items };
+	}
+
+	private _mapLocation(
+		document: MappedDocument,
+		location: cssService.Location,
+		clamp: boolean = true
+	): cssService.Location {
+		if (location.uri !== document.source.uri) {
+			return location;
+		}
+		let range = document.toSourceRange(location.range, clamp);
+		return range ? { uri: location.uri, range } : null;
+	}
+}
+
+/**
+ * The part of a `CancellationToken` the worker reads. Only a worker on the main thread
+ * receives tokens, they can't be posted to a web worker.
+ */
+export interface ICancellationToken {
+	readonly isCancellationRequested: boolean;
+}
+
+/**
+ * How a request can be cancelled: a token on the main thread, or the request id a web worker
+ * proxy is given in place of one, see `CSSInJSWorker.cancelRequest`.
+ */
+export type RequestToken = ICancellationToken | number;
+
+export interface IInlayHint {
+	position: cssService.Position;
+	text: string;
+}
+
+export interface ISemanticToken {
+	line: number;
+	character: number;
+	length: number;
+	/** index into the token types of the legend */
+	tokenType: number;
+	/** bit set of the token modifiers of the legend */
+	tokenModifiers: number;
+}
+
+export interface ICreateData {
+	languageId: string;
+	options: Options;
+	/**
+	 * How the models hold their styles. Default: 'template'
+	 */
+	syntax?: StyleSyntax;
+	/**
+	 * The language the styles are written in. Default: 'scss'
+	 */
+	dialect?: CSSDialect;
+	/**
+	 * Style sheets whose custom properties and variables are visible from every model, by uri.
+	 */
+	libraryDocuments?: { [uri: string]: string };
+}
+
+export function create(ctx: worker.IWorkerContext, createData: ICreateData): CSSInJSWorker {
+	return new CSSInJSWorker(ctx, createData);
+}
+
+function toDocumentSymbol(
+	document: MappedDocument,
+	symbol: cssService.SymbolInformation,
+	range: cssService.Range
+): cssService.DocumentSymbol {
+	// measured in the generated text, where `${…}` expressions can't be mistaken for a block
+	let generated = document.document;
+	let start = generated.offsetAt(symbol.location.range.start);
+	let text = generated.getText(symbol.location.range);
+	let detail = '';
+	// the name is whatever comes before the block, e.g. the selector of a rule
+	let nameLength = text.indexOf('{');
+	if (nameLength === -1) {
+		// a variable, its value is the detail
+		let colon = text.indexOf(':');
+		nameLength = colon === -1 ? text.length : colon;
+		detail = colon === -1 ? '' : document.toSourceText(text.substring(colon + 1).trim());
+	}
+	nameLength = text.substring(0, nameLength).replace(/\s+$/, '').length;
+	let nameEnd = document.toSourcePosition(generated.positionAt(start + nameLength));
+	return {
+		name: document.toSourceText(symbol.name),
+		detail,
+		kind: symbol.kind,
+		range,
+		selectionRange: { start: range.start, end: nameEnd || range.end },
+		children: []
+	};
+}
+
+/**
+ * Puts every symbol into the innermost symbol that contains it.
+ */
+function nestSymbols(symbols: cssService.DocumentSymbol[]): cssService.DocumentSymbol[] {
+	let sorted = symbols
+		.slice(0)
+		.sort(
+			(a, b) =>
+				comparePositions(a.range.start, b.range.start) || comparePositions(b.range.end, a.range.end)
+		);
+	let roots: cssService.DocumentSymbol[] = [];
+	let parents: cssService.DocumentSymbol[] = [];
+	for (let symbol of sorted) {
+		while (parents.length && !containsRange(parents[parents.length - 1].range, symbol.range)) {
+			parents.pop();
+		}
+		if (parents.length) {
+			parents[parents.length - 1].children.push(symbol);
+		} else {
+			roots.push(symbol);
+		}
+		parents.push(symbol);
+	}
+	return roots;
+}
+
+function comparePositions(a: cssService.Position, b: cssService.Position): number {
+	return a.line - b.line || a.character - b.character;
+}
+
+// strictly, the selectors of `a, b { }` share one range and are siblings
+function containsRange(outer: cssService.Range, inner: cssService.Range): boolean {
+	return (
+		comparePositions(outer.start, inner.start) <= 0 &&
+		comparePositions(inner.end, outer.end) <= 0 &&
+		(comparePositions(outer.start, inner.start) !== 0 ||
+			comparePositions(inner.end, outer.end) !== 0)
+	);
+}
+
+function isSameRange(a: cssService.Range, b: cssService.Range): boolean {
+	return comparePositions(a.start, b.start) === 0 && comparePositions(a.end, b.end) === 0;
+}
+
+function createLanguageService(
+	dialect: CSSDialect,
+	options: cssService.LanguageServiceOptions
+): cssService.LanguageService {
+	switch (dialect) {
+		case 'css':
+			return cssService.getCSSLanguageService(options);
+		case 'less':
+			return cssService.getLESSLanguageService(options);
+		default:
+			return cssService.getSCSSLanguageService(options);
+	}
+}
+
+function appendMarkdown(
+	contents: cssService.MarkupContent | cssService.MarkedString | cssService.MarkedString[],
+	markdown: string
+): cssService.MarkupContent | cssService.MarkedString[] {
+	if (!contents) {
+		return { kind: 'markdown', value: markdown };
+	}
+	if (Array.isArray(contents)) {
+		return contents.concat(markdown);
+	}
+	if (typeof contents === 'object' && 'kind' in contents && contents.kind === 'markdown') {
+		return { kind: 'markdown', value: contents.value + '\n\n' + markdown };
+	}
+	return [contents as cssService.MarkedString, markdown];
+}
+
+function repeat(value: string, count: number): string {
+	let result = '';
+	while (count-- > 0) {
+		result += value;
+	}
+	return result;
+}
+
+function dedent(lines: string[], indent: string): string[] {
+	return lines.map((line) => (line.indexOf(indent) === 0 ? line.substring(indent.length) : line));
+}
+
+// same test as the language service formatter: is the closest brace before `offset` an opening one
+function isInRule(text: string, offset: number): boolean {
+	while (offset >= 0) {
+		let ch = text.charAt(offset);
+		if (ch === '{') {
+			return true;
+		} else if (ch === '}') {
+			return false;
+		}
+		offset--;
+	}
+	return false;
+}
+
+function mapRanges<T extends { range: cssService.Range }>(
+	items: T[],
+	mapRange: (range: cssService.Range) => cssService.Range | null
+): T[] {
+	let result: T[] = [];
+	for (let item of items || []) {
+		let range = mapRange(item.range);
+		if (range) {
+			result.push({ ...item, range });
+		}
+	}
+	return result;
+}
+
+function mapSelectionRange(
+	document: MappedDocument,
+	selectionRange: cssService.SelectionRange
+): cssService.SelectionRange {
+	if (!selectionRange) {
+		return undefined;
+	}
+	let parent = mapSelectionRange(document, selectionRange.parent);
+	let range = document.toSourceRange(selectionRange.range, false);
+	if (!range) {
+		// ranges that reach into the wrapper are skipped
+		return parent;
 	}
+	return parent ? { range, parent } : { range };
 }
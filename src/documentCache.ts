@@ -0,0 +1,78 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cssService from 'vscode-css-languageservice';
+import { MappedDocument } from './documentMapping';
+
+interface CacheEntry {
+	version: number;
+	document: MappedDocument;
+	/** parsed on first use */
+	stylesheet?: cssService.Stylesheet;
+}
+
+/**
+ * Keeps the documents of the most recently used models, and the stylesheets parsed from them,
+ * until the model changes. Holds at most `size` models.
+ */
+export class DocumentCache {
+	// a `Map` iterates in insertion order, so the least recently used entry comes first
+	private _entries = new Map<string, CacheEntry>();
+
+	constructor(private _size: number) {}
+
+	/**
+	 * Returns the document built for `version` of the model at `uri`, or `undefined` if there is none.
+	 */
+	public getDocument(uri: string, version: number): MappedDocument | undefined {
+		const entry = this._entries.get(uri);
+		if (!entry) {
+			return undefined;
+		}
+		this._entries.delete(uri);
+		if (entry.version !== version) {
+			return undefined;
+		}
+		this._entries.set(uri, entry);
+		return entry.document;
+	}
+
+	public setDocument(uri: string, version: number, document: MappedDocument): void {
+		this._entries.delete(uri);
+		if (this._size <= 0) {
+			return;
+		}
+		this._entries.set(uri, { version, document });
+		while (this._entries.size > this._size) {
+			this._entries.delete(this._entries.keys().next().value);
+		}
+	}
+
+	/**
+	 * Returns the stylesheet of `document`, parsing it only if the document is not cached
+	 * or was not parsed before.
+	 */
+	public getStylesheet(
+		document: MappedDocument,
+		parse: (document: MappedDocument) => cssService.Stylesheet
+	): cssService.Stylesheet {
+		const entry = this._entries.get(document.source.uri);
+		if (!entry || entry.document !== document) {
+			return parse(document);
+		}
+		if (!entry.stylesheet) {
+			entry.stylesheet = parse(document);
+		}
+		return entry.stylesheet;
+	}
+
+	public delete(uri: string): void {
+		this._entries.delete(uri);
+	}
+
+	public clear(): void {
+		this._entries.clear();
+	}
+}
@@ -0,0 +1,364 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cssService from 'vscode-css-languageservice';
+
+interface Segment {
+	generatedStart: number;
+	generatedEnd: number;
+	sourceStart: number;
+	sourceEnd: number;
+	/** stands in for text the language service must not see, e.g. a `${…}` expression */
+	placeholder: boolean;
+}
+
+/**
+ * Builds the text handed to the language service together with the offsets of
+ * the user text it was built from.
+ */
+export class OffsetMapBuilder {
+	private _text: string = '';
+	private _segments: Segment[] = [];
+
+	/**
+	 * Appends text that has no counterpart in the source document.
+	 */
+	public appendSynthetic(text: string): void {
+		this._text += text;
+	}
+
+	/**
+	 * Appends text that stands for `[sourceStart, sourceEnd)` of the source document.
+	 * If the lengths differ, the slice is mapped as a whole and offsets inside it snap to its edges.
+	 */
+	public appendSource(text: string, sourceStart: number, sourceEnd?: number): void {
+		this._append(
+			text,
+			sourceStart,
+			typeof sourceEnd === 'number' ? sourceEnd : sourceStart + text.length,
+			false
+		);
+	}
+
+	/**
+	 * Appends `text` in place of `[sourceStart, sourceEnd)`, which the language service can't parse.
+	 * Diagnostics on placeholders are dropped and edits get the source text back.
+	 */
+	public appendPlaceholder(text: string, sourceStart: number, sourceEnd: number): void {
+		this._append(text, sourceStart, sourceEnd, true);
+	}
+
+	private _append(
+		text: string,
+		sourceStart: number,
+		sourceEnd: number,
+		placeholder: boolean
+	): void {
+		const generatedStart = this._text.length;
+		this._text += text;
+		this._segments.push({
+			generatedStart,
+			generatedEnd: this._text.length,
+			sourceStart,
+			sourceEnd,
+			placeholder
+		});
+	}
+
+	public build(): OffsetMap {
+		return new OffsetMap(this._text, this._segments.slice(0));
+	}
+}
+
+export class OffsetMap {
+	constructor(public readonly text: string, private readonly _segments: Segment[]) {}
+
+	/**
+	 * Translates a source offset into the generated text, or `undefined` if the source
+	 * offset was not copied into it or lies inside a placeholder. Offsets inside other replaced
+	 * slices snap to their start.
+	 */
+	public toGenerated(sourceOffset: number): number | undefined {
+		for (const segment of this._segments) {
+			if (sourceOffset >= segment.sourceStart && sourceOffset <= segment.sourceEnd) {
+				if (isVerbatim(segment)) {
+					return segment.generatedStart + sourceOffset - segment.sourceStart;
+				}
+				if (sourceOffset === segment.sourceStart) {
+					return segment.generatedStart;
+				}
+				if (sourceOffset === segment.sourceEnd) {
+					return segment.generatedEnd;
+				}
+				if (!segment.placeholder) {
+					return segment.generatedStart;
+				}
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Whether `[generatedStart, generatedEnd)` overlaps a placeholder.
+	 */
+	public overlapsPlaceholder(generatedStart: number, generatedEnd: number): boolean {
+		return this._segments.some(
+			(segment) =>
+				segment.placeholder &&
+				generatedStart < segment.generatedEnd &&
+				generatedEnd > segment.generatedStart
+		);
+	}
+
+	/**
+	 * The source slices that placeholders stand in for, in source order.
+	 */
+	public getPlaceholders(): { start: number; end: number }[] {
+		return this._segments
+			.filter((segment) => segment.placeholder)
+			.map((segment) => ({ start: segment.sourceStart, end: segment.sourceEnd }));
+	}
+
+	/**
+	 * Puts the source text of every placeholder back in its place, wherever it occurs in `text`.
+	 */
+	public restorePlaceholders(text: string, sourceText: string): string {
+		// later placeholders first, so `x1` is not found inside `x10`
+		for (let i = this._segments.length - 1; i >= 0; i--) {
+			const segment = this._segments[i];
+			if (!segment.placeholder) {
+				continue;
+			}
+			const replacement = this.text.substring(segment.generatedStart, segment.generatedEnd);
+			const index = replacement ? text.indexOf(replacement) : -1;
+			if (index !== -1) {
+				text =
+					text.substring(0, index) +
+					sourceText.substring(segment.sourceStart, segment.sourceEnd) +
+					text.substring(index + replacement.length);
+			}
+		}
+		return text;
+	}
+
+	/**
+	 * Translates a generated offset back into the source, or `undefined` if it lies in synthetic text.
+	 * `bias` decides which edge an offset inside a replaced slice snaps to.
+	 */
+	public toSource(generatedOffset: number, bias: 'start' | 'end' = 'start'): number | undefined {
+		const segment = this._findSegment(generatedOffset, bias);
+		if (!segment) {
+			return undefined;
+		}
+		if (isVerbatim(segment)) {
+			return segment.sourceStart + generatedOffset - segment.generatedStart;
+		}
+		if (generatedOffset === segment.generatedStart) {
+			return segment.sourceStart;
+		}
+		if (generatedOffset === segment.generatedEnd) {
+			return segment.sourceEnd;
+		}
+		return bias === 'start' ? segment.sourceStart : segment.sourceEnd;
+	}
+
+	/**
+	 * Translates a generated range back into the source. With `clamp`, edges that fall into
+	 * synthetic text are moved onto the closest source text inside the range; a point in synthetic
+	 * text is moved onto the end of the preceding source text. Returns `undefined` if nothing is left.
+	 */
+	public toSourceRange(
+		generatedStart: number,
+		generatedEnd: number,
+		clamp: boolean
+	): { start: number; end: number } | undefined {
+		let start = this.toSource(generatedStart, 'start');
+		let end = this.toSource(generatedEnd, 'end');
+		if (!clamp) {
+			return start !== undefined && end !== undefined ? { start, end } : undefined;
+		}
+		if (generatedStart === generatedEnd && start === undefined) {
+			const previous = this._previousSegment(generatedStart) || this._nextSegment(generatedStart);
+			if (!previous) {
+				return undefined;
+			}
+			const offset =
+				previous.generatedEnd <= generatedStart ? previous.sourceEnd : previous.sourceStart;
+			return { start: offset, end: offset };
+		}
+		if (start === undefined) {
+			const next = this._nextSegment(generatedStart);
+			if (!next || next.generatedStart > generatedEnd) {
+				return undefined;
+			}
+			start = next.sourceStart;
+		}
+		if (end === undefined) {
+			const previous = this._previousSegment(generatedEnd);
+			if (!previous || previous.generatedEnd < generatedStart) {
+				return undefined;
+			}
+			end = previous.sourceEnd;
+		}
+		return start <= end ? { start, end } : undefined;
+	}
+
+	private _findSegment(offset: number, bias: 'start' | 'end'): Segment | undefined {
+		let fallback: Segment | undefined;
+		for (const segment of this._segments) {
+			if (offset < segment.generatedStart || offset > segment.generatedEnd) {
+				continue;
+			}
+			const preferred =
+				bias === 'start' ? offset < segment.generatedEnd : offset > segment.generatedStart;
+			if (preferred) {
+				return segment;
+			}
+			fallback = fallback || segment;
+		}
+		return fallback;
+	}
+
+	private _nextSegment(offset: number): Segment | undefined {
+		for (const segment of this._segments) {
+			if (segment.generatedStart >= offset) {
+				return segment;
+			}
+		}
+		return undefined;
+	}
+
+	private _previousSegment(offset: number): Segment | undefined {
+		let result: Segment | undefined;
+		for (const segment of this._segments) {
+			if (segment.generatedEnd <= offset) {
+				result = segment;
+			}
+		}
+		return result;
+	}
+}
+
+function isVerbatim(segment: Segment): boolean {
+	return segment.generatedEnd - segment.generatedStart === segment.sourceEnd - segment.sourceStart;
+}
+
+/**
+ * A user document paired with the document the language service actually sees.
+ * Positions go in through `toGenerated*`, results come out through `toSource*`.
+ */
+export class MappedDocument {
+	constructor(
+		public readonly source: cssService.TextDocument,
+		public readonly document: cssService.TextDocument,
+		private readonly _map: OffsetMap
+	) {}
+
+	public static create(
+		source: cssService.TextDocument,
+		languageId: string,
+		builder: OffsetMapBuilder
+	): MappedDocument {
+		const map = builder.build();
+		const document = cssService.TextDocument.create(
+			source.uri,
+			languageId,
+			source.version,
+			map.text
+		);
+		return new MappedDocument(source, document, map);
+	}
+
+	public get map(): OffsetMap {
+		return this._map;
+	}
+
+	public toGeneratedPosition(position: cssService.Position): cssService.Position | null {
+		if (!position) {
+			return null;
+		}
+		const offset = this._map.toGenerated(this.source.offsetAt(position));
+		return offset === undefined ? null : this.document.positionAt(offset);
+	}
+
+	public toGeneratedRange(range: cssService.Range): cssService.Range | null {
+		if (!range) {
+			return null;
+		}
+		const start = this.toGeneratedPosition(range.start);
+		const end = this.toGeneratedPosition(range.end);
+		return start && end ? { start, end } : null;
+	}
+
+	public toSourcePosition(position: cssService.Position): cssService.Position | null {
+		if (!position) {
+			return null;
+		}
+		const offset = this._map.toSource(this.document.offsetAt(position));
+		return offset === undefined ? null : this.source.positionAt(offset);
+	}
+
+	/**
+	 * Maps a range of the generated document back into the user document.
+	 * See `OffsetMap.toSourceRange` for the meaning of `clamp`.
+	 */
+	public toSourceRange(range: cssService.Range, clamp: boolean): cssService.Range | null {
+		if (!range) {
+			return null;
+		}
+		const offsets = this._map.toSourceRange(
+			this.document.offsetAt(range.start),
+			this.document.offsetAt(range.end),
+			clamp
+		);
+		if (!offsets) {
+			return null;
+		}
+		return {
+			start: this.source.positionAt(offsets.start),
+			end: this.source.positionAt(offsets.end)
+		};
+	}
+
+	/**
+	 * Whether a range of the generated document covers a placeholder.
+	 */
+	public overlapsPlaceholder(range: cssService.Range): boolean {
+		return this._map.overlapsPlaceholder(
+			this.document.offsetAt(range.start),
+			this.document.offsetAt(range.end)
+		);
+	}
+
+	/**
+	 * Maps a line of the generated document to the user line it starts in,
+	 * or `null` if the line starts in synthetic text.
+	 */
+	public toSourceLine(line: number): number | null {
+		const position = this.toSourcePosition({ line, character: 0 });
+		return position ? position.line : null;
+	}
+
+	public toSourceTextEdits(edits: cssService.TextEdit[]): cssService.TextEdit[] {
+		if (!edits) {
+			return edits;
+		}
+		const result: cssService.TextEdit[] = [];
+		for (const edit of edits) {
+			const range = this.toSourceRange(edit.range, false);
+			if (range) {
+				result.push({ range, newText: this.toSourceText(edit.newText) });
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Replaces the placeholders in text produced by the language service with the user text they stand for.
+	 */
+	public toSourceText(text: string): string {
+		return this._map.restorePlaceholders(text, this.source.getText());
+	}
+}
@@ -0,0 +1,12 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// The editor worker ships without typings
+
+declare module 'monaco-editor-core/esm/vs/editor/editor.worker' {
+	import type { worker } from 'monaco-editor-core';
+
+	export function initialize(callback: (ctx: worker.IWorkerContext, createData: any) => any): void;
+}
@@ -0,0 +1,164 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface FunctionSignature {
+	name: string;
+	/** a parameter ending in `…` takes the rest of the arguments */
+	parameters: string[];
+	description: string;
+}
+
+/**
+ * The signatures of the CSS functions, overloads follow each other from the fewest parameters.
+ */
+export const functionSignatures: FunctionSignature[] = [
+	{
+		name: 'calc',
+		parameters: ['expression'],
+		description: 'Evaluates a mathematical expression of lengths, numbers, percentages and more.'
+	},
+	{
+		name: 'clamp',
+		parameters: ['min', 'preferred', 'max'],
+		description: 'Clamps the preferred value between a minimum and a maximum.'
+	},
+	{
+		name: 'min',
+		parameters: ['value…'],
+		description: 'The smallest of a list of values.'
+	},
+	{
+		name: 'max',
+		parameters: ['value…'],
+		description: 'The largest of a list of values.'
+	},
+	{
+		name: 'minmax',
+		parameters: ['min', 'max'],
+		description:
+			'A size range of a grid track, greater than or equal to min and less than or equal to max.'
+	},
+	{
+		name: 'repeat',
+		parameters: ['count', 'tracks'],
+		description:
+			'Repeats a fragment of a grid track list, `count` is a number, `auto-fill` or `auto-fit`.'
+	},
+	{
+		name: 'fit-content',
+		parameters: ['limit'],
+		description: 'A size that fits the content, but not larger than the limit.'
+	},
+	{
+		name: 'cubic-bezier',
+		parameters: ['x1', 'y1', 'x2', 'y2'],
+		description:
+			'An easing function defined by a cubic Bézier curve through (0, 0), (x1, y1), (x2, y2) and (1, 1). x1 and x2 are between 0 and 1.'
+	},
+	{
+		name: 'steps',
+		parameters: ['count', 'position'],
+		description:
+			'An easing function of `count` equal steps, `position` is one of `jump-start`, `jump-end`, `jump-none`, `jump-both`, `start` or `end`.'
+	},
+	{
+		name: 'rgb',
+		parameters: ['red', 'green', 'blue'],
+		description:
+			'A color from its red, green and blue channels, numbers from 0 to 255 or percentages.'
+	},
+	{
+		name: 'rgb',
+		parameters: ['red', 'green', 'blue', 'alpha'],
+		description:
+			'A color from its red, green and blue channels, numbers from 0 to 255 or percentages, and its opacity.'
+	},
+	{
+		name: 'rgba',
+		parameters: ['red', 'green', 'blue', 'alpha'],
+		description:
+			'A color from its red, green and blue channels, numbers from 0 to 255 or percentages, and its opacity.'
+	},
+	{
+		name: 'hsl',
+		parameters: ['hue', 'saturation', 'lightness'],
+		description: 'A color from its hue angle, saturation and lightness.'
+	},
+	{
+		name: 'hsl',
+		parameters: ['hue', 'saturation', 'lightness', 'alpha'],
+		description: 'A color from its hue angle, saturation and lightness, and its opacity.'
+	},
+	{
+		name: 'hsla',
+		parameters: ['hue', 'saturation', 'lightness', 'alpha'],
+		description: 'A color from its hue angle, saturation and lightness, and its opacity.'
+	},
+	{
+		name: 'var',
+		parameters: ['name', 'fallback'],
+		description: 'The value of a custom property, or the fallback if it is not set.'
+	},
+	{
+		name: 'env',
+		parameters: ['name', 'fallback'],
+		description: 'The value of a user agent environment variable, e.g. `safe-area-inset-top`.'
+	},
+	{
+		name: 'attr',
+		parameters: ['name', 'fallback'],
+		description: 'The value of an attribute of the element.'
+	},
+	{
+		name: 'linear-gradient',
+		parameters: ['direction', 'color-stop…'],
+		description: 'A gradient along a line, the direction is an angle or `to` a side or corner.'
+	},
+	{
+		name: 'radial-gradient',
+		parameters: ['shape', 'color-stop…'],
+		description: 'A gradient radiating from an origin, the shape is e.g. `circle at center`.'
+	},
+	{
+		name: 'conic-gradient',
+		parameters: ['from', 'color-stop…'],
+		description: 'A gradient rotated around a center point, e.g. `from 90deg at center`.'
+	},
+	{
+		name: 'translate',
+		parameters: ['x', 'y'],
+		description: 'Moves the element on the plane.'
+	},
+	{
+		name: 'translate3d',
+		parameters: ['x', 'y', 'z'],
+		description: 'Moves the element in 3D space.'
+	},
+	{
+		name: 'scale',
+		parameters: ['x', 'y'],
+		description: 'Resizes the element, `y` defaults to `x`.'
+	},
+	{
+		name: 'rotate',
+		parameters: ['angle'],
+		description: 'Rotates the element around its transform origin.'
+	},
+	{
+		name: 'skew',
+		parameters: ['x-angle', 'y-angle'],
+		description: 'Skews the element on the plane.'
+	},
+	{
+		name: 'matrix',
+		parameters: ['a', 'b', 'c', 'd', 'tx', 'ty'],
+		description: 'A 2D transformation matrix.'
+	},
+	{
+		name: 'blur',
+		parameters: ['radius'],
+		description: 'A Gaussian blur filter.'
+	}
+];
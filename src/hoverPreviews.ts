@@ -0,0 +1,249 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { HoverConfiguration } from './monaco.contribution';
+
+export interface HoverPreview {
+	/** markdown showing the preview images */
+	markdown: string;
+	/** offsets of the previewed declaration */
+	start: number;
+	end: number;
+}
+
+interface Declaration {
+	property: string;
+	value: string;
+	start: number;
+	end: number;
+}
+
+const EASINGS: { [keyword: string]: number[] } = {
+	linear: [0, 0, 1, 1],
+	ease: [0.25, 0.1, 0.25, 1],
+	'ease-in': [0.42, 0, 1, 1],
+	'ease-out': [0, 0, 0.58, 1],
+	'ease-in-out': [0.42, 0, 0.58, 1]
+};
+
+const FONT_SAMPLE = 'The quick brown fox jumps over the lazy dog';
+
+/**
+ * Renders previews of the gradients, shadows, easing curves or font stack of the declaration
+ * at `offset` of a style sheet. Values holding placeholders or variables are not previewed.
+ */
+export function getHoverPreview(
+	text: string,
+	offset: number,
+	configuration: HoverConfiguration
+): HoverPreview | undefined {
+	const declaration = findDeclaration(text, offset);
+	if (!declaration || /__interpolation\d|__expression\d|[$@]|var\(/.test(declaration.value)) {
+		return undefined;
+	}
+	const property = declaration.property.toLowerCase();
+	const value = declaration.value.replace(/\s*!important$/i, '');
+	const images: string[] = [];
+
+	if (configuration.gradients !== false && /gradient\(/i.test(value)) {
+		images.push(
+			toImage(
+				'gradient',
+				200,
+				60,
+				`<div style="${escape(`height:60px;background:${value}`)}"></div>`
+			)
+		);
+	}
+	if (configuration.shadows !== false && property === 'box-shadow') {
+		images.push(
+			toImage(
+				'box-shadow',
+				200,
+				100,
+				`<div style="${escape(
+					`margin:25px 50px;width:100px;height:50px;background:#fff;box-shadow:${value}`
+				)}"></div>`
+			)
+		);
+	}
+	if (configuration.shadows !== false && property === 'text-shadow') {
+		images.push(
+			toImage(
+				'text-shadow',
+				200,
+				60,
+				`<div style="${escape(
+					`font:32px sans-serif;line-height:60px;text-align:center;text-shadow:${value}`
+				)}">Aa</div>`
+			)
+		);
+	}
+	if (
+		configuration.easings !== false &&
+		/^(transition|animation)(-timing-function)?$/.test(property)
+	) {
+		for (const easing of findEasings(value).slice(0, 4)) {
+			images.push(easing);
+		}
+	}
+	if (configuration.fonts !== false && (property === 'font-family' || property === 'font')) {
+		const families = getFontFamilies(property === 'font' ? getFontShorthandFamilies(value) : value);
+		if (families.length) {
+			const lines = families.map(
+				(family) =>
+					`<div style="${escape(
+						`font:16px ${family};line-height:24px;white-space:nowrap`
+					)}">${escape(FONT_SAMPLE)}</div>`
+			);
+			images.push(toImage('font stack', 400, families.length * 24, lines.join('')));
+		}
+	}
+
+	if (!images.length) {
+		return undefined;
+	}
+	return { markdown: images.join(' '), start: declaration.start, end: declaration.end };
+}
+
+/**
+ * Finds the declaration around `offset`, from the end of the previous statement to its `;` or `}`.
+ */
+function findDeclaration(text: string, offset: number): Declaration | undefined {
+	let start = offset;
+	while (start > 0 && ';{}'.indexOf(text.charAt(start - 1)) === -1) {
+		start--;
+	}
+	let end = offset;
+	let depth = 0;
+	while (end < text.length) {
+		const ch = text.charAt(end);
+		if (ch === '(') {
+			depth++;
+		} else if (ch === ')') {
+			depth--;
+		} else if (ch === '{') {
+			// a nested rule, not a declaration
+			return undefined;
+		} else if (ch === '}' || (ch === ';' && depth <= 0)) {
+			break;
+		}
+		end++;
+	}
+	const match = /^(\s*)([\w-]+)\s*:([\s\S]*)$/.exec(text.substring(start, end));
+	if (!match) {
+		return undefined;
+	}
+	const value = match[3].trim();
+	return value ? { property: match[2], value, start: start + match[1].length, end } : undefined;
+}
+
+/**
+ * Plots the easing functions of a transition or animation, `steps()` included.
+ */
+function findEasings(value: string): string[] {
+	const result: string[] = [];
+	const pattern = /cubic-bezier\(([^)]*)\)|steps\(([^)]*)\)|\b(linear|ease-in-out|ease-in|ease-out|ease)\b/gi;
+	let match: RegExpExecArray;
+	while ((match = pattern.exec(value))) {
+		if (match[1] !== undefined) {
+			const points = match[1].split(',').map((point) => parseFloat(point));
+			if (points.length === 4 && points.every((point) => !isNaN(point))) {
+				result.push(toCurveImage(match[0], toBezierPath(points)));
+			}
+		} else if (match[2] !== undefined) {
+			const args = match[2].split(',').map((arg) => arg.trim());
+			const count = parseInt(args[0], 10);
+			if (count > 0) {
+				result.push(toCurveImage(match[0], toStepsPath(count, (args[1] || 'end').toLowerCase())));
+			}
+		} else {
+			const keyword = match[3].toLowerCase();
+			result.push(toCurveImage(keyword, toBezierPath(EASINGS[keyword])));
+		}
+	}
+	return result;
+}
+
+// the curves are drawn in a 100x100 box, with room above and below for overshooting curves
+function toBezierPath([x1, y1, x2, y2]: number[]): string {
+	const point = (x: number, y: number) => `${round(x * 100)},${round((1 - y) * 100)}`;
+	return `M${point(0, 0)} C${point(x1, y1)} ${point(x2, y2)} ${point(1, 1)}`;
+}
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+function toStepsPath(count: number, position: string): string {
+	const jumps = position === 'jump-none' ? count - 1 : position === 'jump-both' ? count + 1 : count;
+	const first =
+		position === 'start' || position === 'jump-start' || position === 'jump-both' ? 1 : 0;
+	let path = '';
+	for (let i = 0; i < count; i++) {
+		const y = Math.min(jumps, first + i) / Math.max(jumps, 1);
+		path += `${i === 0 ? 'M' : 'L'}${(i / count) * 100},${(1 - y) * 100} H${
+			((i + 1) / count) * 100
+		} `;
+	}
+	return path.trim();
+}
+
+function toCurveImage(label: string, path: string): string {
+	const svg =
+		'<svg xmlns="http://www.w3.org/2000/svg" width="80" height="80" viewBox="-10 -30 120 160">' +
+		'<rect x="0" y="0" width="100" height="100" fill="none" stroke="#888" stroke-dasharray="2"/>' +
+		`<path d="${path}" fill="none" stroke="#0078d4" stroke-width="4"/></svg>`;
+	return `![${label}](${toDataUri(svg)})`;
+}
+
+/**
+ * Renders HTML in an SVG image, so the browser draws the value exactly as it would in a page.
+ */
+function toImage(label: string, width: number, height: number, html: string): string {
+	const svg =
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+		`<foreignObject width="100%" height="100%"><div xmlns="http://www.w3.org/1999/xhtml">${html}</div>` +
+		'</foreignObject></svg>';
+	return `![${label}](${toDataUri(svg)})`;
+}
+
+function toDataUri(svg: string): string {
+	// markdown ends the link at an unbalanced parenthesis
+	return (
+		'data:image/svg+xml,' + encodeURIComponent(svg).replace(/\(/g, '%28').replace(/\)/g, '%29')
+	);
+}
+
+/**
+ * The families of a `font` shorthand: whatever follows the size and line height.
+ */
+function getFontShorthandFamilies(value: string): string {
+	const match = /(?:^|\s)(?:[\d.]+(?:[a-z]+|%)|(?:xx?-)?(?:small|large)|medium|larger|smaller)(?:\s*\/\s*\S+)?\s+(.+)$/i.exec(
+		value
+	);
+	return match ? match[1] : '';
+}
+
+function getFontFamilies(value: string): string[] {
+	const result: string[] = [];
+	const pattern = /\s*("[^"]*"|'[^']*'|[^,]+)\s*(?:,|$)/g;
+	let match: RegExpExecArray;
+	while ((match = pattern.exec(value)) && match[0]) {
+		const family = match[1].trim();
+		if (family) {
+			result.push(family);
+		}
+	}
+	return result;
+}
+
+function escape(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
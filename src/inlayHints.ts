@@ -0,0 +1,168 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { scanString } from './templateInterpolation';
+
+export interface ValueHint {
+	/** where the hint is shown, after the value it explains */
+	offset: number;
+	text: string;
+}
+
+interface Quantity {
+	value: number;
+	unit: string;
+}
+
+/**
+ * Finds the `rem` and `em` lengths of a style sheet, shown in pixels, and the `calc()` expressions
+ * whose result is constant. Both `rem` and `em` are relative to `rootFontSize`.
+ */
+export function findInlayHints(text: string, rootFontSize: number): ValueHint[] {
+	const result: ValueHint[] = [];
+	let i = 0;
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (ch === '/' && text.charAt(i + 1) === '*') {
+			const end = text.indexOf('*/', i + 2);
+			i = end === -1 ? text.length : end + 2;
+			continue;
+		}
+		if (ch === '"' || ch === "'") {
+			i = scanString(text, i + 1, ch);
+			continue;
+		}
+		if (isNameChar(text.charAt(i - 1))) {
+			i++;
+			continue;
+		}
+		if (/^calc\(/i.test(text.substr(i, 5))) {
+			const end = findClosingParenthesis(text, i + 4);
+			if (end === -1) {
+				break;
+			}
+			const quantity = evaluate(text.substring(i + 5, end - 1), rootFontSize);
+			if (quantity) {
+				result.push({ offset: end, text: '= ' + formatQuantity(quantity) });
+			}
+			i = end;
+			continue;
+		}
+		const length = /^([-+]?\d*\.?\d+)(rem|em)(?![\w-])/i.exec(text.substr(i, 20));
+		if (length) {
+			const pixels = parseFloat(length[1]) * rootFontSize;
+			result.push({
+				offset: i + length[0].length,
+				text: '= ' + formatQuantity({ value: pixels, unit: 'px' })
+			});
+			i += length[0].length;
+			continue;
+		}
+		i++;
+	}
+	return result;
+}
+
+function isNameChar(ch: string): boolean {
+	return /[\w.#$@-]/.test(ch);
+}
+
+/**
+ * Returns the offset after the parenthesis closing the one at `offset`, or -1.
+ */
+function findClosingParenthesis(text: string, offset: number): number {
+	let depth = 0;
+	for (let i = offset; i < text.length; i++) {
+		const ch = text.charAt(i);
+		if (ch === '(') {
+			depth++;
+		} else if (ch === ')') {
+			depth--;
+			if (depth === 0) {
+				return i + 1;
+			}
+		} else if (ch === ';' || ch === '{' || ch === '}') {
+			return -1;
+		}
+	}
+	return -1;
+}
+
+function formatQuantity(quantity: Quantity): string {
+	return Math.round(quantity.value * 100) / 100 + quantity.unit;
+}
+
+/**
+ * Evaluates the body of a `calc()`, or returns `undefined` if it is not constant, e.g. because it
+ * mixes `%` and `px` or refers to a variable.
+ */
+function evaluate(expression: string, rootFontSize: number): Quantity | undefined {
+	const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?[a-z%]*|[-+*/()]|calc(?=\()|\S+/gi) || [];
+	let position = 0;
+
+	const parseSum = (): Quantity | undefined => {
+		let left = parseProduct();
+		while (left && (tokens[position] === '+' || tokens[position] === '-')) {
+			const operator = tokens[position++];
+			const right = parseProduct();
+			if (!right || right.unit !== left.unit) {
+				return undefined;
+			}
+			left = {
+				value: operator === '+' ? left.value + right.value : left.value - right.value,
+				unit: left.unit
+			};
+		}
+		return left;
+	};
+	const parseProduct = (): Quantity | undefined => {
+		let left = parseFactor();
+		while (left && (tokens[position] === '*' || tokens[position] === '/')) {
+			const operator = tokens[position++];
+			const right = parseFactor();
+			if (!right) {
+				return undefined;
+			}
+			if (operator === '*') {
+				if (left.unit && right.unit) {
+					return undefined;
+				}
+				left = { value: left.value * right.value, unit: left.unit || right.unit };
+			} else {
+				if (right.unit || right.value === 0) {
+					return undefined;
+				}
+				left = { value: left.value / right.value, unit: left.unit };
+			}
+		}
+		return left;
+	};
+	const parseFactor = (): Quantity | undefined => {
+		const token = tokens[position++];
+		if (token === '-') {
+			const factor = parseFactor();
+			return factor && { value: -factor.value, unit: factor.unit };
+		}
+		if (token && token.toLowerCase() === 'calc') {
+			return parseFactor();
+		}
+		if (token === '(') {
+			const sum = parseSum();
+			return tokens[position++] === ')' ? sum : undefined;
+		}
+		const match = /^(\d*\.?\d+(?:e[+-]?\d+)?)([a-z%]*)$/i.exec(token || '');
+		if (!match) {
+			return undefined;
+		}
+		const unit = match[2].toLowerCase();
+		const value = parseFloat(match[1]);
+		return unit === 'rem' || unit === 'em'
+			? { value: value * rootFontSize, unit: 'px' }
+			: { value, unit };
+	};
+
+	const result = parseSum();
+	return result && position === tokens.length ? result : undefined;
+}
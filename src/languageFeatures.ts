@@ -3,7 +3,11 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { IEditorInjection, ILanguagesInjection } from './monaco.contribution';
+import {
+	IEditorInjection,
+	ILanguagesInjection,
+	LanguageServiceDefaults
+} from './monaco.contribution';
 import * as cssService from 'vscode-css-languageservice';
 import {
 	languages,
@@ -17,26 +21,80 @@ import {
 	MarkerSeverity,
 	editor
 } from './fillers/monaco-editor-core';
-import { CSSInJSWorker } from './cssWorker';
+import { CSSInJSWorker, ISemanticToken, RequestToken } from './cssWorker';
+import { SEMANTIC_TOKEN_MODIFIERS, SEMANTIC_TOKEN_TYPES } from './semanticTokens';
+import { isThemeTokenReference, ThemeTokenService } from './themeTokens';
 import { TextEdit } from 'vscode-css-languageservice';
 import { InsertReplaceEdit } from 'vscode-languageserver-types';
-type IEditor = editor.IEditor;
-type ITextModel = editor.ITextModel;
 
 export interface WorkerAccessor {
 	(first: Uri, ...more: Uri[]): Promise<CSSInJSWorker>;
 }
 
+// --- cancellation ------
+
+/**
+ * Whether the result of a request made at model `version` is of no use anymore.
+ */
+function isSuperseded(model: editor.IReadOnlyModel, version: number, token?: CancellationToken) {
+	return (
+		(token && token.isCancellationRequested) ||
+		model.isDisposed() ||
+		model.getVersionId() !== version
+	);
+}
+
+let lastRequestId = 0;
+
+/**
+ * Runs `request` with a token `worker` can read. A token can only reach a worker on the main
+ * thread, a web worker proxy can't post it and is given a request id instead, cancelled with
+ * `cancelRequest` while the request runs.
+ */
+async function requestWorker<T>(
+	worker: CSSInJSWorker,
+	token: CancellationToken,
+	request: (requestToken: RequestToken) => Promise<T>
+): Promise<T> {
+	const isMainThread = worker instanceof CSSInJSWorker;
+	if (!token || isMainThread) {
+		return request(token);
+	}
+	const requestId = ++lastRequestId;
+	const listener = token.onCancellationRequested(() => {
+		// a worker that was stopped meanwhile has nothing to cancel
+		worker.cancelRequest(requestId).then(undefined, () => {});
+	});
+	try {
+		return await request(requestId);
+	} finally {
+		listener.dispose();
+	}
+}
+
+function toTextDocument(model: editor.IReadOnlyModel): cssService.TextDocument {
+	return cssService.TextDocument.create(
+		model.uri.toString(),
+		model.getModeId(),
+		model.getVersionId(),
+		model.getValue()
+	);
+}
+
 // --- diagnostics --- ---
 export class DiagnosticsAdapter {
 	private _disposables: IDisposable[] = [];
 	private _listener: { [uri: string]: IDisposable } = Object.create(null);
 
+	/**
+	 * @param _owner owner of the markers, defaults to the language id
+	 */
 	constructor(
 		private _languageId: string,
-		private editor: IEditor,
-		private _worker: CSSInJSWorker,
-		private editorInj: IEditorInjection
+		private _worker: WorkerAccessor,
+		private editorInj: IEditorInjection,
+		private _defaults: LanguageServiceDefaults,
+		private _owner: string = _languageId
 	) {
 		const onModelAdd = (model: editor.IModel): void => {
 			let modeId = model.getModeId();
@@ -47,17 +105,14 @@ export class DiagnosticsAdapter {
 			let handle: number;
 			this._listener[model.uri.toString()] = model.onDidChangeContent(() => {
 				window.clearTimeout(handle);
-				handle = window.setTimeout(
-					() => this._doValidate(model.uri, modeId, editor, editorInj),
-					500
-				);
+				handle = window.setTimeout(() => this._doValidate(model.uri, modeId), 500);
 			});
 
-			this._doValidate(model.uri, modeId, editor, editorInj);
+			this._doValidate(model.uri, modeId);
 		};
 
 		const onModelRemoved = (model: editor.IModel): void => {
-			editorInj.setModelMarkers(model, this._languageId, []);
+			editorInj.setModelMarkers(model, this._owner, []);
 
 			let uriStr = model.uri.toString();
 			let listener = this._listener[uriStr];
@@ -84,6 +139,17 @@ export class DiagnosticsAdapter {
 			}
 		});
 
+		this._disposables.push(
+			_defaults.onDidChange(() => {
+				editorInj.getModels().forEach((model) => {
+					if (model.getModeId() === this._languageId) {
+						onModelRemoved(model);
+						onModelAdd(model);
+					}
+				});
+			})
+		);
+
 		editorInj.getModels().forEach(onModelAdd);
 	}
 
@@ -92,19 +158,21 @@ export class DiagnosticsAdapter {
 		this._disposables = [];
 	}
 
-	private _doValidate(
-		resource: Uri,
-		languageId: string,
-		editor: IEditor,
-		editorInj: IEditorInjection
-	): void {
-		this._worker
-			.doValidation(resource.toString(), editor.getModel() as ITextModel)
+	private _doValidate(resource: Uri, languageId: string): void {
+		if (!this._defaults.modeConfiguration.diagnostics) {
+			return;
+		}
+		const requested = this.editorInj.getModel(resource);
+		const version = requested ? requested.getVersionId() : undefined;
+		this._worker(resource)
+			.then((worker) => worker.doValidation(resource.toString()))
 			.then((diagnostics) => {
-				const markers = diagnostics.map((d) => toDiagnostics(resource, d, editorInj));
-				let model = editor.getModel();
-				if (model) {
-					editorInj.setModelMarkers(model as ITextModel, languageId, markers);
+				const markers = diagnostics.map((d) => toDiagnostics(resource, d, this.editorInj));
+				// the model may have been disposed or edited while the worker was busy,
+				// an edit schedules another validation
+				let model = this.editorInj.getModel(resource);
+				if (model && model.getModeId() === languageId && model.getVersionId() === version) {
+					this.editorInj.setModelMarkers(model, this._owner, markers);
 				}
 			})
 			.then(undefined, (err) => {
@@ -156,7 +224,7 @@ function fromPosition(position: Position): cssService.Position {
 	if (!position) {
 		return void 0 as any;
 	}
-	return { character: position.column - 1, line: position.lineNumber };
+	return { character: position.column - 1, line: position.lineNumber - 1 };
 }
 
 function fromRange(range: IRange): cssService.Range {
@@ -165,10 +233,10 @@ function fromRange(range: IRange): cssService.Range {
 	}
 	return {
 		start: {
-			line: range.startLineNumber,
+			line: range.startLineNumber - 1,
 			character: range.startColumn - 1
 		},
-		end: { line: range.endLineNumber, character: range.endColumn - 1 }
+		end: { line: range.endLineNumber - 1, character: range.endColumn - 1 }
 	};
 }
 
@@ -178,9 +246,9 @@ function toRange(range: cssService.Range, ieditor: IEditorInjection): Range {
 	}
 
 	return new ieditor.Range(
-		range.start.line,
+		range.start.line + 1,
 		range.start.character + 1,
-		range.end.line,
+		range.end.line + 1,
 		range.end.character + 1
 	);
 }
@@ -251,7 +319,11 @@ function toTextEdit(
 }
 
 export class CompletionAdapter implements languages.CompletionItemProvider {
-	constructor(private _worker: CSSInJSWorker, private editor: IEditorInjection) {}
+	constructor(
+		private _worker: WorkerAccessor,
+		private editor: IEditorInjection,
+		private _themeTokens?: ThemeTokenService
+	) {}
 
 	public get triggerCharacters(): string[] {
 		return [' ', ':'];
@@ -264,10 +336,20 @@ export class CompletionAdapter implements languages.CompletionItemProvider {
 		token: CancellationToken
 	): Promise<languages.CompletionList> {
 		const resource = model.uri;
+		const version = model.getVersionId();
 
-		const info = await this._worker.doComplete(resource.toString(), fromPosition(position), model);
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const info = await requestWorker(worker, token, (requestToken) =>
+			worker.doComplete(resource.toString(), fromPosition(position), requestToken)
+		);
+		const themeItems = this._themeTokens
+			? await this._themeTokens.doComplete(toTextDocument(model), fromPosition(position))
+			: [];
 
-		if (!info) {
+		if ((!info && !themeItems.length) || isSuperseded(model, version, token)) {
 			return void 0 as any;
 		}
 		const wordInfo = model.getWordUntilPosition({
@@ -282,7 +364,8 @@ export class CompletionAdapter implements languages.CompletionItemProvider {
 			wordInfo.endColumn
 		);
 
-		let items: languages.CompletionItem[] = info.items.map((entry) => {
+		const entries = (info ? info.items : []).concat(themeItems);
+		let items: languages.CompletionItem[] = entries.map((entry) => {
 			let item: languages.CompletionItem = {
 				label: entry.label,
 				insertText: entry.insertText || entry.label,
@@ -316,7 +399,7 @@ export class CompletionAdapter implements languages.CompletionItemProvider {
 		});
 
 		return {
-			incomplete: info.isIncomplete,
+			incomplete: info ? info.isIncomplete : false,
 			suggestions: items
 		};
 	}
@@ -365,7 +448,11 @@ function toMarkedStringArray(
 // --- hover ------
 
 export class HoverAdapter implements languages.HoverProvider {
-	constructor(private _worker: CSSInJSWorker, private editor: IEditorInjection) {}
+	constructor(
+		private _worker: WorkerAccessor,
+		private editor: IEditorInjection,
+		private _themeTokens?: ThemeTokenService
+	) {}
 
 	async provideHover(
 		model: editor.IReadOnlyModel,
@@ -373,14 +460,79 @@ export class HoverAdapter implements languages.HoverProvider {
 		token: CancellationToken
 	): Promise<languages.Hover> {
 		let resource = model.uri;
+		const version = model.getVersionId();
 
-		const info = await this._worker.doHover(resource.toString(), fromPosition(position), model);
-		if (!info) {
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const info = await requestWorker(worker, token, (requestToken) =>
+			worker.doHover(resource.toString(), fromPosition(position), requestToken)
+		);
+		const themeInfo = this._themeTokens
+			? await this._themeTokens.doHover(toTextDocument(model), fromPosition(position))
+			: null;
+		if ((!info && !themeInfo) || isSuperseded(model, version, token)) {
 			return void 0 as any;
 		}
+		// the theme token hover belongs to the reference under the cursor, the narrower range
+		const range = (themeInfo || info).range;
 		return <languages.Hover>{
-			range: toRange(info.range as any, this.editor),
-			contents: toMarkedStringArray(info.contents)
+			range: toRange(range, this.editor),
+			contents: [info, themeInfo]
+				.filter((item) => item && item.contents)
+				.reduce((contents, item) => contents.concat(toMarkedStringArray(item.contents)), [])
+		};
+	}
+}
+
+// --- signature help ------
+
+export class SignatureHelpAdapter implements languages.SignatureHelpProvider {
+	constructor(private _worker: WorkerAccessor) {}
+
+	public get signatureHelpTriggerCharacters(): string[] {
+		return ['(', ','];
+	}
+
+	public get signatureHelpRetriggerCharacters(): string[] {
+		return [')'];
+	}
+
+	async provideSignatureHelp(
+		model: editor.IReadOnlyModel,
+		position: Position,
+		token: CancellationToken,
+		context: languages.SignatureHelpContext
+	): Promise<languages.SignatureHelpResult> {
+		const resource = model.uri;
+		const version = model.getVersionId();
+
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const help = await requestWorker(worker, token, (requestToken) =>
+			worker.getSignatureHelp(resource.toString(), fromPosition(position), requestToken)
+		);
+		if (!help || isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		return {
+			value: {
+				signatures: help.signatures.map((signature) => ({
+					label: signature.label,
+					documentation: signature.documentation
+						? toMarkdownString(signature.documentation)
+						: undefined,
+					parameters: (signature.parameters || []).map((parameter) => ({
+						label: parameter.label
+					}))
+				})),
+				activeSignature: help.activeSignature || 0,
+				activeParameter: help.activeParameter || 0
+			},
+			dispose() {}
 		};
 	}
 }
@@ -404,7 +556,7 @@ function toDocumentHighlightKind(
 
 export class DocumentHighlightAdapter implements languages.DocumentHighlightProvider {
 	constructor(
-		private _worker: CSSInJSWorker,
+		private _worker: WorkerAccessor,
 		private languages: ILanguagesInjection,
 		private editor: IEditorInjection
 	) {}
@@ -415,13 +567,16 @@ export class DocumentHighlightAdapter implements languages.DocumentHighlightProv
 		token: CancellationToken
 	): Promise<languages.DocumentHighlight[]> {
 		const resource = model.uri;
+		const version = model.getVersionId();
 
-		const entries = await this._worker.findDocumentHighlights(
-			resource.toString(),
-			fromPosition(position),
-			model
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const entries = await requestWorker(worker, token, (requestToken) =>
+			worker.findDocumentHighlights(resource.toString(), fromPosition(position), requestToken)
 		);
-		if (!entries) {
+		if (!entries || isSuperseded(model, version, token)) {
 			return void 0 as any;
 		}
 		return entries.map((entry) => {
@@ -442,8 +597,15 @@ function toLocation(location: cssService.Location, editor: IEditorInjection): la
 	};
 }
 
+/**
+ * Library documents are not models, a location in one can only be opened if a model has its uri.
+ */
+function isInModel(location: cssService.Location, editor: IEditorInjection): boolean {
+	return !!editor.getModel(editor.Uri.parse(location.uri));
+}
+
 export class DefinitionAdapter {
-	constructor(private _worker: CSSInJSWorker, private editor: IEditorInjection) {}
+	constructor(private _worker: WorkerAccessor, private editor: IEditorInjection) {}
 
 	public async provideDefinition(
 		model: editor.IReadOnlyModel,
@@ -451,13 +613,16 @@ export class DefinitionAdapter {
 		token: CancellationToken
 	): Promise<languages.Definition> {
 		const resource = model.uri;
+		const version = model.getVersionId();
 
-		const definition = await this._worker.findDefinition(
-			resource.toString(),
-			fromPosition(position),
-			model
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const definition = await requestWorker(worker, token, (requestToken) =>
+			worker.findDefinition(resource.toString(), fromPosition(position), requestToken)
 		);
-		if (!definition) {
+		if (!definition || !isInModel(definition, this.editor) || isSuperseded(model, version, token)) {
 			return void 0 as any;
 		}
 		return [toLocation(definition, this.editor)];
@@ -467,7 +632,7 @@ export class DefinitionAdapter {
 // --- references ------
 
 export class ReferenceAdapter implements languages.ReferenceProvider {
-	constructor(private _worker: CSSInJSWorker, private editor: IEditorInjection) {}
+	constructor(private _worker: WorkerAccessor, private editor: IEditorInjection) {}
 
 	async provideReferences(
 		model: editor.IReadOnlyModel,
@@ -476,16 +641,19 @@ export class ReferenceAdapter implements languages.ReferenceProvider {
 		token: CancellationToken
 	): Promise<languages.Location[]> {
 		const resource = model.uri;
+		const version = model.getVersionId();
 
-		const entries = await this._worker.findReferences(
-			resource.toString(),
-			fromPosition(position),
-			model
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const entries = await requestWorker(worker, token, (requestToken) =>
+			worker.findReferences(resource.toString(), fromPosition(position), requestToken)
 		);
-		if (!entries) {
+		if (!entries || isSuperseded(model, version, token)) {
 			return void 0 as any;
 		}
-		return entries.map((e) => toLocation(e, this.editor));
+		return entries.filter((e) => isInModel(e, this.editor)).map((e) => toLocation(e, this.editor));
 	}
 }
 
@@ -518,7 +686,7 @@ function toWorkspaceEdit(
 }
 
 export class RenameAdapter implements languages.RenameProvider {
-	constructor(private _worker: CSSInJSWorker, private editor: IEditorInjection) {}
+	constructor(private _worker: WorkerAccessor, private editor: IEditorInjection) {}
 
 	async provideRenameEdits(
 		model: editor.IReadOnlyModel,
@@ -527,13 +695,18 @@ export class RenameAdapter implements languages.RenameProvider {
 		token: CancellationToken
 	): Promise<languages.WorkspaceEdit> {
 		const resource = model.uri;
+		const version = model.getVersionId();
 
-		const edit = await this._worker.doRename(
-			resource.toString(),
-			fromPosition(position),
-			newName,
-			model
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const edit = await requestWorker(worker, token, (requestToken) =>
+			worker.doRename(resource.toString(), fromPosition(position), newName, requestToken)
 		);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
 		return toWorkspaceEdit(edit, this.editor);
 	}
 }
@@ -589,7 +762,7 @@ function toSymbolKind(
 
 export class DocumentSymbolAdapter implements languages.DocumentSymbolProvider {
 	constructor(
-		private _worker: CSSInJSWorker,
+		private _worker: WorkerAccessor,
 		private languages: ILanguagesInjection,
 		private editor: IEditorInjection
 	) {}
@@ -599,37 +772,66 @@ export class DocumentSymbolAdapter implements languages.DocumentSymbolProvider {
 		token: CancellationToken
 	): Promise<languages.DocumentSymbol[]> {
 		const resource = model.uri;
+		const version = model.getVersionId();
 
-		const items = await this._worker.findDocumentSymbols(resource.toString(), model);
-		if (!items) {
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
 			return void 0 as any;
 		}
-		return items.map((item) => ({
+		const items = await requestWorker(worker, token, (requestToken) =>
+			worker.findDocumentSymbols(resource.toString(), requestToken)
+		);
+		if (!items || isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		return items.map((item) => this._toDocumentSymbol(item));
+	}
+
+	private _toDocumentSymbol(
+		item: cssService.DocumentSymbol,
+		containerName?: string
+	): languages.DocumentSymbol {
+		return {
 			name: item.name,
-			detail: '',
-			containerName: item.containerName,
+			detail: item.detail || '',
+			containerName,
 			kind: toSymbolKind(item.kind, this.languages),
 			tags: [],
-			range: toRange(item.location.range, this.editor),
-			selectionRange: toRange(item.location.range, this.editor)
-		}));
+			range: toRange(item.range, this.editor),
+			selectionRange: toRange(item.selectionRange, this.editor),
+			children: (item.children || []).map((child) => this._toDocumentSymbol(child, item.name))
+		};
 	}
 }
 
 export class DocumentColorAdapter implements languages.DocumentColorProvider {
-	constructor(private _worker: CSSInJSWorker, private editor: IEditorInjection) {}
+	constructor(
+		private _worker: WorkerAccessor,
+		private editor: IEditorInjection,
+		private _themeTokens?: ThemeTokenService
+	) {}
 
 	public async provideDocumentColors(
 		model: editor.IReadOnlyModel,
 		token: CancellationToken
 	): Promise<languages.IColorInformation[]> {
 		const resource = model.uri;
+		const version = model.getVersionId();
 
-		const infos = await this._worker.findDocumentColors(resource.toString(), model);
-		if (!infos) {
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
 			return void 0 as any;
 		}
-		return infos.map((item) => ({
+		const infos = await requestWorker(worker, token, (requestToken) =>
+			worker.findDocumentColors(resource.toString(), requestToken)
+		);
+		const themeInfos = this._themeTokens
+			? await this._themeTokens.findDocumentColors(toTextDocument(model))
+			: [];
+		if ((!infos && !themeInfos.length) || isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		return (infos || []).concat(themeInfos).map((item) => ({
 			color: item.color,
 			range: toRange(item.range, this.editor)
 		}));
@@ -640,15 +842,27 @@ export class DocumentColorAdapter implements languages.DocumentColorProvider {
 		info: languages.IColorInformation,
 		token: CancellationToken
 	): Promise<languages.IColorPresentation[]> {
+		const text = model.getValueInRange(info.range);
+		if (this._themeTokens && isThemeTokenReference(text)) {
+			// the color comes from the theme, picking another one would replace the reference
+			return [{ label: text }];
+		}
 		const resource = model.uri;
+		const version = model.getVersionId();
 
-		const presentations = await this._worker.getColorPresentations(
-			resource.toString(),
-			info.color,
-			fromRange(info.range),
-			model
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const presentations = await requestWorker(worker, token, (requestToken) =>
+			worker.getColorPresentations(
+				resource.toString(),
+				info.color,
+				fromRange(info.range),
+				requestToken
+			)
 		);
-		if (!presentations) {
+		if (!presentations || isSuperseded(model, version, token)) {
 			return void 0 as any;
 		}
 		return presentations.map((presentation) => {
@@ -669,7 +883,7 @@ export class DocumentColorAdapter implements languages.DocumentColorProvider {
 }
 
 export class FoldingRangeAdapter implements languages.FoldingRangeProvider {
-	constructor(private _worker: CSSInJSWorker, private languages: ILanguagesInjection) {}
+	constructor(private _worker: WorkerAccessor, private languages: ILanguagesInjection) {}
 
 	public async provideFoldingRanges(
 		model: editor.IReadOnlyModel,
@@ -677,9 +891,16 @@ export class FoldingRangeAdapter implements languages.FoldingRangeProvider {
 		token: CancellationToken
 	): Promise<languages.FoldingRange[]> {
 		const resource = model.uri;
+		const version = model.getVersionId();
 
-		const ranges = await this._worker.getFoldingRanges(resource.toString(), model, context);
-		if (!ranges) {
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const ranges = await requestWorker(worker, token, (requestToken) =>
+			worker.getFoldingRanges(resource.toString(), context, requestToken)
+		);
+		if (!ranges || isSuperseded(model, version, token)) {
 			return void 0 as any;
 		}
 		return ranges.map((range) => {
@@ -710,7 +931,7 @@ function toFoldingRangeKind(
 }
 
 export class SelectionRangeAdapter implements languages.SelectionRangeProvider {
-	constructor(private _worker: CSSInJSWorker, private editor: IEditorInjection) {}
+	constructor(private _worker: WorkerAccessor, private editor: IEditorInjection) {}
 
 	public async provideSelectionRanges(
 		model: editor.IReadOnlyModel,
@@ -718,13 +939,16 @@ export class SelectionRangeAdapter implements languages.SelectionRangeProvider {
 		token: CancellationToken
 	): Promise<languages.SelectionRange[][]> {
 		const resource = model.uri;
+		const version = model.getVersionId();
 
-		const selectionRanges = await this._worker.getSelectionRanges(
-			resource.toString(),
-			positions.map(fromPosition),
-			model
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const selectionRanges = await requestWorker(worker, token, (requestToken) =>
+			worker.getSelectionRanges(resource.toString(), positions.map(fromPosition), requestToken)
 		);
-		if (!selectionRanges) {
+		if (!selectionRanges || isSuperseded(model, version, token)) {
 			return void 0 as any;
 		}
 		return selectionRanges.map((selectionRange) => {
@@ -737,3 +961,220 @@ export class SelectionRangeAdapter implements languages.SelectionRangeProvider {
 		});
 	}
 }
+
+// --- inlay hints ------
+
+export class InlayHintsAdapter implements languages.InlayHintsProvider {
+	constructor(
+		private _worker: WorkerAccessor,
+		private languages: ILanguagesInjection,
+		private _themeTokens?: ThemeTokenService
+	) {}
+
+	public async provideInlayHints(
+		model: editor.IReadOnlyModel,
+		range: Range,
+		token: CancellationToken
+	): Promise<languages.InlayHint[]> {
+		const resource = model.uri;
+		const version = model.getVersionId();
+
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const hints = await requestWorker(worker, token, (requestToken) =>
+			worker.getInlayHints(resource.toString(), fromRange(range), requestToken)
+		);
+		const tokenHints = this._themeTokens
+			? await this._themeTokens.findInlayHints(toTextDocument(model), fromRange(range))
+			: [];
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		return (hints || []).concat(tokenHints).map((hint) => ({
+			text: hint.text,
+			position: { lineNumber: hint.position.line + 1, column: hint.position.character + 1 },
+			kind: this.languages.InlayHintKind.Other,
+			whitespaceBefore: true
+		}));
+	}
+}
+
+// --- semantic tokens ------
+
+/**
+ * Encodes sorted tokens the way monaco expects them: five numbers per token, the line and
+ * start character relative to the previous token, the length, the type and the modifiers.
+ */
+function encodeSemanticTokens(tokens: ISemanticToken[]): Uint32Array {
+	const data = new Uint32Array(tokens.length * 5);
+	let line = 0;
+	let character = 0;
+	tokens.forEach((token, index) => {
+		data[index * 5] = token.line - line;
+		data[index * 5 + 1] = token.line === line ? token.character - character : token.character;
+		data[index * 5 + 2] = token.length;
+		data[index * 5 + 3] = token.tokenType;
+		data[index * 5 + 4] = token.tokenModifiers;
+		line = token.line;
+		character = token.character;
+	});
+	return data;
+}
+
+export class DocumentSemanticTokensAdapter implements languages.DocumentSemanticTokensProvider {
+	constructor(private _worker: WorkerAccessor) {}
+
+	public getLegend(): languages.SemanticTokensLegend {
+		return { tokenTypes: SEMANTIC_TOKEN_TYPES, tokenModifiers: SEMANTIC_TOKEN_MODIFIERS };
+	}
+
+	public async provideDocumentSemanticTokens(
+		model: editor.ITextModel,
+		lastResultId: string | null,
+		token: CancellationToken
+	): Promise<languages.SemanticTokens> {
+		const resource = model.uri;
+		const version = model.getVersionId();
+
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const tokens = await requestWorker(worker, token, (requestToken) =>
+			worker.getSemanticTokens(resource.toString(), requestToken)
+		);
+		if (!tokens || isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		return { data: encodeSemanticTokens(tokens) };
+	}
+
+	public releaseDocumentSemanticTokens(resultId: string | undefined): void {}
+}
+
+// --- code actions ------
+
+function fromMarker(marker: editor.IMarkerData): cssService.Diagnostic {
+	return {
+		range: fromRange(marker),
+		message: marker.message,
+		code: typeof marker.code === 'string' ? marker.code : marker.code && marker.code.value,
+		source: marker.source
+	};
+}
+
+function toCodeAction(command: cssService.Command, editor: IEditorInjection): languages.CodeAction {
+	// '_css.applyCodeAction' commands carry [uri, version, edits]
+	const [uri, , edits] = command.arguments;
+	return {
+		title: command.title,
+		kind: 'quickfix',
+		edit: toWorkspaceEdit({ changes: { [uri]: edits } }, editor)
+	};
+}
+
+export class CodeActionAdapter implements languages.CodeActionProvider {
+	constructor(private _worker: WorkerAccessor, private editor: IEditorInjection) {}
+
+	public async provideCodeActions(
+		model: editor.ITextModel,
+		range: Range,
+		context: languages.CodeActionContext,
+		token: CancellationToken
+	): Promise<languages.CodeActionList> {
+		const resource = model.uri;
+		const version = model.getVersionId();
+
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const commands = await requestWorker(worker, token, (requestToken) =>
+			worker.doCodeActions(
+				resource.toString(),
+				fromRange(range),
+				{ diagnostics: context.markers.map(fromMarker) },
+				requestToken
+			)
+		);
+		if (!commands || isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		return {
+			actions: commands
+				.filter((command) => command.arguments && command.arguments.length === 3)
+				.map((command) => toCodeAction(command, this.editor)),
+			dispose: () => {}
+		};
+	}
+}
+
+// --- formatting ------
+
+function fromFormattingOptions(
+	options: languages.FormattingOptions
+): cssService.CSSFormatConfiguration {
+	return {
+		tabSize: options.tabSize,
+		insertSpaces: options.insertSpaces
+	};
+}
+
+export class DocumentFormattingEditAdapter implements languages.DocumentFormattingEditProvider {
+	constructor(private _worker: WorkerAccessor, private editor: IEditorInjection) {}
+
+	public async provideDocumentFormattingEdits(
+		model: editor.IReadOnlyModel,
+		options: languages.FormattingOptions,
+		token: CancellationToken
+	): Promise<languages.TextEdit[]> {
+		const resource = model.uri;
+		const version = model.getVersionId();
+
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const edits = await requestWorker(worker, token, (requestToken) =>
+			worker.format(resource.toString(), null, fromFormattingOptions(options), requestToken)
+		);
+		if (!edits || edits.length === 0 || isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		return edits.map((edit) => toTextEdit(edit, this.editor));
+	}
+}
+
+export class DocumentRangeFormattingEditAdapter
+	implements languages.DocumentRangeFormattingEditProvider {
+	constructor(private _worker: WorkerAccessor, private editor: IEditorInjection) {}
+
+	public async provideDocumentRangeFormattingEdits(
+		model: editor.IReadOnlyModel,
+		range: Range,
+		options: languages.FormattingOptions,
+		token: CancellationToken
+	): Promise<languages.TextEdit[]> {
+		const resource = model.uri;
+		const version = model.getVersionId();
+
+		const worker = await this._worker(resource);
+		if (isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		const edits = await requestWorker(worker, token, (requestToken) =>
+			worker.format(
+				resource.toString(),
+				fromRange(range),
+				fromFormattingOptions(options),
+				requestToken
+			)
+		);
+		if (!edits || edits.length === 0 || isSuperseded(model, version, token)) {
+			return void 0 as any;
+		}
+		return edits.map((edit) => toTextEdit(edit, this.editor));
+	}
+}
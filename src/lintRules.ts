@@ -0,0 +1,169 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cssService from 'vscode-css-languageservice';
+import { MappedDocument } from './documentMapping';
+import { Node, NodeType } from './parserNodes';
+import type {
+	LintDeclaration,
+	LintFix,
+	LintRuleset,
+	LintSpan,
+	LintStylesheet,
+	RegisteredLintRule
+} from './monaco.contribution';
+
+export interface LintProblem {
+	/** the diagnostic, in the user document */
+	diagnostic: cssService.Diagnostic;
+	fix?: LintFix;
+}
+
+/**
+ * Runs the custom lint rules on a parsed document. Rules see offsets of the user document, and
+ * what they report is turned into diagnostics of the user document.
+ */
+export function runLintRules(
+	document: MappedDocument,
+	stylesheet: cssService.Stylesheet,
+	rules: RegisteredLintRule[]
+): LintProblem[] {
+	const result: LintProblem[] = [];
+	rules = rules.filter((registered) => registered.severity !== 'ignore');
+	if (!rules.length) {
+		return result;
+	}
+	const source = document.source;
+	const lintStylesheet = toLintStylesheet(document, stylesheet);
+	for (const { rule, severity } of rules) {
+		const report = (span: LintSpan, message: string, fix?: LintFix) => {
+			result.push({
+				diagnostic: {
+					range: { start: source.positionAt(span.start), end: source.positionAt(span.end) },
+					message,
+					severity:
+						severity === 'error'
+							? cssService.DiagnosticSeverity.Error
+							: cssService.DiagnosticSeverity.Warning,
+					code: rule.id,
+					source: 'lint'
+				},
+				fix
+			});
+		};
+		try {
+			rule.check(lintStylesheet, { report });
+		} catch (e) {
+			// a broken rule is reported instead of failing the whole validation
+			report({ start: 0, end: 0 }, `Lint rule \`${rule.id}\` failed: ${e && e.message}`);
+		}
+	}
+	return result;
+}
+
+/**
+ * Turns a lint fix into a '_css.applyCodeAction' command, the form the code action adapter reads.
+ */
+export function toFixCommand(document: MappedDocument, fix: LintFix): cssService.Command {
+	const source = document.source;
+	return {
+		title: fix.title,
+		command: '_css.applyCodeAction',
+		arguments: [
+			source.uri,
+			source.version,
+			fix.edits.map((edit) => ({
+				range: { start: source.positionAt(edit.start), end: source.positionAt(edit.end) },
+				newText: edit.newText
+			}))
+		]
+	};
+}
+
+/**
+ * Builds the view of the parsed stylesheet the rules see. Rules that are not in the user
+ * document, e.g. the wrapper of a template, are left out and their content moves up.
+ */
+function toLintStylesheet(
+	document: MappedDocument,
+	stylesheet: cssService.Stylesheet
+): LintStylesheet {
+	const text = document.source.getText();
+	const toSpan = (node: Node): LintSpan | undefined => {
+		const range = document.toSourceRange(
+			{
+				start: document.document.positionAt(node.offset),
+				end: document.document.positionAt(node.offset + node.length)
+			},
+			true
+		);
+		return range
+			? {
+					start: document.source.offsetAt(range.start),
+					end: document.source.offsetAt(range.end)
+			  }
+			: undefined;
+	};
+
+	const root: LintStylesheet = { text, declarations: [], rulesets: [] };
+	const visit = (
+		node: Node,
+		parent: { declarations: LintDeclaration[]; rulesets: LintRuleset[] }
+	) => {
+		if (node.type === NodeType.Declaration || node.type === NodeType.CustomPropertyDeclaration) {
+			const declaration = toDeclaration(node, text, toSpan);
+			if (declaration) {
+				parent.declarations.push(declaration);
+			}
+			return;
+		}
+		let children = node.getChildren();
+		if (node.type === NodeType.Ruleset) {
+			const span = toSpan(node);
+			const selectorSpan = toSpan(node.getSelectors());
+			const body = node.getDeclarations();
+			children = body ? body.getChildren() : [];
+			if (span && selectorSpan) {
+				const ruleset: LintRuleset = {
+					start: span.start,
+					end: span.end,
+					selector: text.substring(selectorSpan.start, selectorSpan.end),
+					declarations: [],
+					rulesets: []
+				};
+				parent.rulesets.push(ruleset);
+				parent = ruleset;
+			}
+		}
+		for (const child of children) {
+			visit(child, parent);
+		}
+	};
+	visit(stylesheet as Node, root);
+	return root;
+}
+
+function toDeclaration(
+	node: Node,
+	text: string,
+	toSpan: (node: Node) => LintSpan | undefined
+): LintDeclaration | undefined {
+	const span = toSpan(node);
+	const propertySpan = node.getChildren()[0] && toSpan(node.getChildren()[0]);
+	const value = node.getValue && node.getValue();
+	const valueSpan = value && toSpan(value);
+	if (!span || !propertySpan || !valueSpan) {
+		return undefined;
+	}
+	return {
+		start: span.start,
+		end: span.end,
+		property: node.getFullPropertyName().toLowerCase(),
+		value: text.substring(valueSpan.start, valueSpan.end),
+		important: /!\s*important\s*;?\s*$/i.test(text.substring(valueSpan.end, span.end)),
+		propertySpan,
+		valueSpan
+	};
+}
@@ -0,0 +1,108 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cssService from 'vscode-css-languageservice';
+
+const MDN = 'https://developer.mozilla.org/docs/Web/CSS/';
+
+function reference(name: string): cssService.IReference[] {
+	return [{ name: 'MDN Reference', url: MDN + name }];
+}
+
+const CONTAINER_QUERIES = ['E105', 'FF110', 'S16', 'C105', 'O91'];
+
+/**
+ * The at-rules, properties and descriptors of modern CSS that the data bundled with
+ * vscode-css-languageservice 5 doesn't know yet. Used next to the default data provider.
+ */
+export const modernCssData: cssService.CSSDataV1 = {
+	version: 1.1,
+	atDirectives: [
+		{
+			name: '@container',
+			browsers: CONTAINER_QUERIES,
+			references: reference('@container'),
+			description:
+				'Applies styles to the descendants of a query container, depending on the size or style of the container.'
+		},
+		{
+			name: '@layer',
+			browsers: ['E99', 'FF97', 'S15.4', 'C99', 'O85'],
+			references: reference('@layer'),
+			description:
+				'Declares a cascade layer, or the order of several layers. Rules of later layers win over rules of earlier layers, whatever their specificity.'
+		},
+		{
+			name: '@property',
+			browsers: ['E85', 'FF128', 'S16.4', 'C85', 'O71'],
+			references: reference('@property'),
+			description:
+				'Registers a custom property with a syntax, an initial value and whether it inherits, so that it can be type checked and animated.'
+		}
+	],
+	properties: [
+		{
+			name: 'container',
+			syntax: "<'container-name'> [ / <'container-type'> ]?",
+			browsers: CONTAINER_QUERIES,
+			references: reference('container'),
+			description:
+				'Shorthand for `container-name` and `container-type`, establishes the element as a query container.'
+		},
+		{
+			name: 'container-name',
+			syntax: 'none | <custom-ident>+',
+			values: [{ name: 'none', description: 'The query container has no name.' }],
+			browsers: CONTAINER_QUERIES,
+			references: reference('container-name'),
+			description: 'Names the query container, so that `@container` rules can target it.'
+		},
+		{
+			name: 'container-type',
+			syntax: 'normal | size | inline-size',
+			values: [
+				{
+					name: 'normal',
+					description: 'The element is not a query container for size queries.'
+				},
+				{
+					name: 'size',
+					description: 'Establishes a query container for size queries on both axes.'
+				},
+				{
+					name: 'inline-size',
+					description: 'Establishes a query container for size queries on the inline axis.'
+				}
+			],
+			browsers: CONTAINER_QUERIES,
+			references: reference('container-type'),
+			description: 'Establishes the element as a query container for size queries.'
+		},
+		{
+			name: 'syntax',
+			syntax: '<string>',
+			references: reference('@property/syntax'),
+			description:
+				"@property descriptor. The syntax the values of the custom property follow, e.g. `'<length>'` or `'*'`."
+		},
+		{
+			name: 'inherits',
+			syntax: 'true | false',
+			values: [
+				{ name: 'true', description: 'The custom property inherits by default.' },
+				{ name: 'false', description: 'The custom property does not inherit by default.' }
+			],
+			references: reference('@property/inherits'),
+			description: '@property descriptor. Whether the custom property inherits by default.'
+		},
+		{
+			name: 'initial-value',
+			syntax: '<declaration-value>',
+			references: reference('@property/initial-value'),
+			description:
+				'@property descriptor. The initial value of the custom property, it has to follow its syntax.'
+		}
+	]
+};
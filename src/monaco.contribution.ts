@@ -3,7 +3,6 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import * as mode from './cssMode';
 import * as cssInJsLang from './cssInJsLang';
 import {
 	languages,
@@ -12,13 +11,13 @@ import {
 	Uri,
 	IEvent,
 	Emitter,
-	Range
+	Range,
+	IDisposable
 } from './fillers/monaco-editor-core';
 import * as cssMode from './cssMode';
 import { CSSInJSWorker } from './cssWorker';
 import { DiagnosticsAdapter, WorkerAccessor } from './languageFeatures';
-
-type IEditor = editor.IEditor;
+import { WorkerManager, createMainThreadContext } from './workerManager';
 
 //  Inject monaco editor and languages references at runtime instead of importing, because we don't want to import the css files
 export interface IEditorInjection {
@@ -53,6 +52,7 @@ export interface ILanguagesInjection {
 	registerCompletionItemProvider: typeof languages.registerCompletionItemProvider;
 	register: typeof languages.register;
 	registerHoverProvider: typeof languages.registerHoverProvider;
+	registerSignatureHelpProvider: typeof languages.registerSignatureHelpProvider;
 	registerDocumentHighlightProvider: typeof languages.registerDocumentHighlightProvider;
 	registerDefinitionProvider: typeof languages.registerDefinitionProvider;
 	registerReferenceProvider: typeof languages.registerReferenceProvider;
@@ -61,9 +61,19 @@ export interface ILanguagesInjection {
 	registerColorProvider: typeof languages.registerColorProvider;
 	registerFoldingRangeProvider: typeof languages.registerFoldingRangeProvider;
 	registerSelectionRangeProvider: typeof languages.registerSelectionRangeProvider;
+	registerCodeActionProvider: typeof languages.registerCodeActionProvider;
+	registerDocumentFormattingEditProvider: typeof languages.registerDocumentFormattingEditProvider;
+	registerDocumentRangeFormattingEditProvider: typeof languages.registerDocumentRangeFormattingEditProvider;
+	registerDocumentSemanticTokensProvider: typeof languages.registerDocumentSemanticTokensProvider;
+	/** available from monaco-editor 0.28, inlay hints are not shown without it */
+	registerInlayHintsProvider?: (
+		languageId: string,
+		provider: languages.InlayHintsProvider
+	) => IDisposable;
 	DocumentHighlightKind: typeof languages.DocumentHighlightKind;
 	SymbolKind: typeof languages.SymbolKind;
 	FoldingRangeKind: typeof languages.FoldingRangeKind;
+	InlayHintKind: typeof languages.InlayHintKind;
 }
 export interface Options {
 	readonly validate?: boolean;
@@ -91,6 +101,198 @@ export interface Options {
 	 * Configures the CSS data types known by the langauge service.
 	 */
 	readonly data?: CSSDataConfiguration;
+	/**
+	 * Settings for the CSS formatter.
+	 */
+	readonly format?: CSSFormatConfiguration;
+	/**
+	 * Tags of the templates that hold styles in JavaScript and TypeScript models.
+	 */
+	readonly embedded?: EmbeddedConfiguration;
+	/**
+	 * Number of models whose parsed styles the worker keeps until they change. 0 disables the cache.
+	 * Default: 20
+	 */
+	readonly documentCacheSize?: number;
+	/**
+	 * Previews added to the hover of a declaration.
+	 */
+	readonly hover?: HoverConfiguration;
+	/**
+	 * Settings of the inlay hints showing computed values.
+	 */
+	readonly inlayHints?: InlayHintsConfiguration;
+	/**
+	 * Browser-compatibility diagnostics, checked against the browser support and status in the
+	 * CSS data: the data bundled with the language service and the `data` providers.
+	 */
+	readonly compat?: CompatConfiguration;
+}
+
+/**
+ * Nothing is reported until `browsers` lists at least one target browser.
+ */
+export interface CompatConfiguration {
+	/**
+	 * The target browsers, as `<browser> <version>` e.g. `['chrome 90', 'safari 14', 'ie 11']`.
+	 * Known browsers are `chrome`, `edge`, `firefox`, `safari`, `opera` and `ie`. Browserslist
+	 * queries such as `> 1%` need the online usage data and are not resolved. Default: []
+	 */
+	readonly browsers?: string[];
+	/** properties, values, at-rules and pseudo-selectors a target browser lacks. Default: 'warning' */
+	readonly unsupported?: 'ignore' | 'warning' | 'error';
+	/** those whose specification is experimental. Default: 'warning' */
+	readonly experimental?: 'ignore' | 'warning' | 'error';
+	/** those that are obsolete. Default: 'warning' */
+	readonly obsolete?: 'ignore' | 'warning' | 'error';
+}
+
+export interface InlayHintsConfiguration {
+	/** the font size `rem` and `em` lengths are converted with, in pixels. Default: 16 */
+	readonly rootFontSize?: number;
+}
+
+/**
+ * The previews are images drawn by the browser from the hovered value, they are only shown for
+ * values without `${…}` expressions and variables. The text of the hover stays as it is.
+ */
+export interface HoverConfiguration {
+	/** gradients, e.g. in `background`. Default: true */
+	readonly gradients?: boolean;
+	/** `box-shadow` and `text-shadow`. Default: true */
+	readonly shadows?: boolean;
+	/** the easing curves of `transition` and `animation`. Default: true */
+	readonly easings?: boolean;
+	/** a sample text in each family of `font-family` and `font`. Default: true */
+	readonly fonts?: boolean;
+}
+
+/**
+ * The style sheet language of a css-in-js mode. It picks the language service, the Monarch grammar
+ * and what the text is wrapped in.
+ */
+export type CSSDialect = 'css' | 'scss' | 'less';
+
+/**
+ * How the models served by a worker hold their styles:
+ * - `template`: the model is the body of a styled template, the `cssInJs` language
+ * - `embedded`: the model is JavaScript or TypeScript, its tagged templates are styles
+ * - `object`: the model is an object style, e.g. `{ backgroundColor: 'red' }`
+ */
+export type StyleSyntax = 'template' | 'embedded' | 'object';
+
+/**
+ * Tag patterns of the templates `setupEmbeddedCssInJs` treats as styles. A pattern is matched against
+ * the tag expression without whitespace and type arguments, `*` matches any sequence of characters.
+ */
+export interface EmbeddedConfiguration {
+	/** templates holding the declarations and nested rules of one element. Default: ['styled.*', 'styled(*)', 'css'] */
+	styleTags?: string[];
+	/** templates holding the blocks of a `@keyframes` rule. Default: ['keyframes'] */
+	keyframesTags?: string[];
+	/** templates holding a whole style sheet. Default: ['createGlobalStyle'] */
+	globalStyleTags?: string[];
+}
+
+/**
+ * The design tokens of a theme, e.g. `{ colors: { primary: '#0070f3' }, space: [0, 4, 8] }`.
+ */
+export interface ThemeTokenTree {
+	[key: string]: ThemeTokenValue;
+}
+
+export type ThemeTokenValue = string | number | ThemeTokenTree | ThemeTokenValue[];
+
+/**
+ * Feeds the completions, hovers and document colors of theme tokens. A token is referenced by its path,
+ * `${theme.colors.primary}`, or as a custom property named after its path, `var(--colors-primary)`.
+ */
+export interface ThemeTokenProvider {
+	/** the token tree, or a callback resolving it, e.g. by fetching the theme */
+	readonly tokens: ThemeTokenTree | (() => ThemeTokenTree | Promise<ThemeTokenTree>);
+	/** how value completions reference a token: `${theme.colors.primary}` or `var(--colors-primary)`. Default: 'theme' */
+	readonly reference?: 'theme' | 'customProperty';
+}
+
+/**
+ * A house lint rule, e.g. no `!important`. `check` is called each time a model is validated and
+ * reports problems through `context.report`, the code of the diagnostics is the rule's `id`.
+ */
+export interface LintRule {
+	readonly id: string;
+	check(stylesheet: LintStylesheet, context: LintRuleContext): void;
+}
+
+export interface RegisteredLintRule {
+	readonly rule: LintRule;
+	readonly severity: 'ignore' | 'warning' | 'error';
+}
+
+/**
+ * Offsets in the text of the model. With `embedded` and `object` syntaxes that is the whole
+ * JavaScript source, not only the styles.
+ */
+export interface LintSpan {
+	readonly start: number;
+	readonly end: number;
+}
+
+/**
+ * The parsed styles of a model. Declarations of the styled element itself, outside of any rule,
+ * are in `declarations`.
+ */
+export interface LintStylesheet {
+	/** the text of the model */
+	readonly text: string;
+	readonly declarations: LintDeclaration[];
+	readonly rulesets: LintRuleset[];
+}
+
+export interface LintRuleset extends LintSpan {
+	/** as written, e.g. `&:hover, &:focus` */
+	readonly selector: string;
+	readonly declarations: LintDeclaration[];
+	/** nested rules */
+	readonly rulesets: LintRuleset[];
+}
+
+export interface LintDeclaration extends LintSpan {
+	/** in lower case, e.g. `font-size` */
+	readonly property: string;
+	/** as written, `${…}` expressions included, without `!important` */
+	readonly value: string;
+	readonly important: boolean;
+	readonly propertySpan: LintSpan;
+	readonly valueSpan: LintSpan;
+}
+
+export interface LintRuleContext {
+	report(span: LintSpan, message: string, fix?: LintFix): void;
+}
+
+/**
+ * Offered as a quick fix of the diagnostic it was reported with.
+ */
+export interface LintFix {
+	readonly title: string;
+	readonly edits: { readonly start: number; readonly end: number; readonly newText: string }[];
+}
+
+export interface CSSFormatConfiguration {
+	/** separate selectors with newline (e.g. "a,\nbr" or "a, br"): Default: true */
+	newlineBetweenSelectors?: boolean;
+	/** add a new line after every css rule: Default: true */
+	newlineBetweenRules?: boolean;
+	/** ensure space around selector separators:  '>', '+', '~' (e.g. "a>b" -> "a > b"): Default: false */
+	spaceAroundSelectorSeparator?: boolean;
+	/** put braces on the same line as rules (`collapse`), or put braces on own line, Allman / ANSI style (`expand`). Default `collapse` */
+	braceStyle?: 'collapse' | 'expand';
+	/** whether existing line breaks before elements should be preserved. Default: true */
+	preserveNewLines?: boolean;
+	/** maximum number of line breaks to be preserved in one chunk. Default: unlimited */
+	maxPreserveNewLines?: number;
+	/** end with a newline: Default: false */
+	insertFinalNewline?: boolean;
 }
 
 export interface ModeConfiguration {
@@ -148,10 +350,41 @@ export interface ModeConfiguration {
 	 * Defines whether the built-in selection range provider is enabled.
 	 */
 	readonly selectionRanges?: boolean;
+
+	/**
+	 * Defines whether the built-in code actions provider is enabled.
+	 */
+	readonly codeActions?: boolean;
+
+	/**
+	 * Defines whether the built-in documentFormattingEdit provider is enabled.
+	 */
+	readonly documentFormattingEdits?: boolean;
+
+	/**
+	 * Defines whether the built-in documentRangeFormattingEdit provider is enabled.
+	 */
+	readonly documentRangeFormattingEdits?: boolean;
+
+	/**
+	 * Defines whether the built-in inlay hints provider is enabled.
+	 */
+	readonly inlayHints?: boolean;
+
+	/**
+	 * Defines whether the built-in semantic tokens provider is enabled.
+	 */
+	readonly semanticTokens?: boolean;
+
+	/**
+	 * Defines whether the built-in signature help provider is enabled.
+	 */
+	readonly signatureHelp?: boolean;
 }
 
 export interface LanguageServiceDefaults {
 	readonly languageId: string;
+	readonly dialect: CSSDialect;
 	readonly onDidChange: IEvent<LanguageServiceDefaults>;
 
 	readonly modeConfiguration: ModeConfiguration;
@@ -159,6 +392,27 @@ export interface LanguageServiceDefaults {
 	setOptions(options: Options): void;
 	setModeConfiguration(modeConfiguration: ModeConfiguration): void;
 
+	readonly themeTokenProvider: ThemeTokenProvider | undefined;
+	/**
+	 * Sets the theme tokens. A callback is called on the first request that needs the tokens,
+	 * set a new provider to refresh them.
+	 */
+	setThemeTokenProvider(provider: ThemeTokenProvider | undefined): void;
+
+	readonly libraryDocuments: { [uri: string]: string };
+	/**
+	 * Sets style sheets, by uri, whose custom properties and variables are visible from every model,
+	 * e.g. the global theme. Definitions and references lead into them, renames leave them unchanged.
+	 */
+	setLibraryDocuments(documents: { [uri: string]: string }): void;
+
+	readonly lintRules: RegisteredLintRule[];
+	/**
+	 * Adds a lint rule, reported with `severity`. Rules are functions, so they only run in workers
+	 * created with `createMainThreadWorker`; a web worker can't receive them.
+	 */
+	registerLintRule(rule: LintRule, severity?: 'ignore' | 'warning' | 'error'): IDisposable;
+
 	/** @deprecated Use options instead */
 	readonly diagnosticsOptions: DiagnosticsOptions;
 	/** @deprecated Use setOptions instead */
@@ -174,15 +428,21 @@ class LanguageServiceDefaultsImpl implements LanguageServiceDefaults {
 	private _onDidChange: Emitter<LanguageServiceDefaults>;
 	private _options: Options;
 	private _modeConfiguration: ModeConfiguration;
+	private _themeTokenProvider: ThemeTokenProvider | undefined;
+	private _libraryDocuments: { [uri: string]: string } = Object.create(null);
+	private _lintRules: RegisteredLintRule[] = [];
 	private _languageId: string;
+	private _dialect: CSSDialect;
 
 	constructor(
 		languageId: string,
+		dialect: CSSDialect,
 		options: Options,
 		modeConfiguration: ModeConfiguration,
 		editor: IEditorInjection
 	) {
 		this._languageId = languageId;
+		this._dialect = dialect;
 		this._onDidChange = new editor.Emitter<LanguageServiceDefaults>();
 		this.setOptions(options);
 		this.setModeConfiguration(modeConfiguration);
@@ -196,6 +456,10 @@ class LanguageServiceDefaultsImpl implements LanguageServiceDefaults {
 		return this._languageId;
 	}
 
+	get dialect(): CSSDialect {
+		return this._dialect;
+	}
+
 	get modeConfiguration(): ModeConfiguration {
 		return this._modeConfiguration;
 	}
@@ -221,6 +485,43 @@ class LanguageServiceDefaultsImpl implements LanguageServiceDefaults {
 		this._modeConfiguration = modeConfiguration || Object.create(null);
 		this._onDidChange.fire(this);
 	}
+
+	get themeTokenProvider(): ThemeTokenProvider | undefined {
+		return this._themeTokenProvider;
+	}
+
+	setThemeTokenProvider(provider: ThemeTokenProvider | undefined): void {
+		this._themeTokenProvider = provider;
+		this._onDidChange.fire(this);
+	}
+
+	get libraryDocuments(): { [uri: string]: string } {
+		return this._libraryDocuments;
+	}
+
+	setLibraryDocuments(documents: { [uri: string]: string }): void {
+		this._libraryDocuments = documents || Object.create(null);
+		this._onDidChange.fire(this);
+	}
+
+	get lintRules(): RegisteredLintRule[] {
+		return this._lintRules;
+	}
+
+	registerLintRule(
+		rule: LintRule,
+		severity: 'ignore' | 'warning' | 'error' = 'warning'
+	): IDisposable {
+		const registered: RegisteredLintRule = { rule, severity };
+		this._lintRules = this._lintRules.concat([registered]);
+		this._onDidChange.fire(this);
+		return {
+			dispose: () => {
+				this._lintRules = this._lintRules.filter((other) => other !== registered);
+				this._onDidChange.fire(this);
+			}
+		};
+	}
 }
 
 const optionsDefault: Required<Options> = {
@@ -245,7 +546,37 @@ const optionsDefault: Required<Options> = {
 		float: 'ignore',
 		idSelector: 'ignore'
 	},
-	data: { useDefaultDataProvider: true }
+	data: { useDefaultDataProvider: true },
+	format: {
+		newlineBetweenSelectors: true,
+		newlineBetweenRules: true,
+		spaceAroundSelectorSeparator: false,
+		braceStyle: 'collapse',
+		preserveNewLines: true,
+		maxPreserveNewLines: undefined,
+		insertFinalNewline: false
+	},
+	embedded: {
+		styleTags: ['styled.*', 'styled(*)', 'css'],
+		keyframesTags: ['keyframes'],
+		globalStyleTags: ['createGlobalStyle']
+	},
+	documentCacheSize: 20,
+	hover: {
+		gradients: true,
+		shadows: true,
+		easings: true,
+		fonts: true
+	},
+	inlayHints: {
+		rootFontSize: 16
+	},
+	compat: {
+		browsers: [],
+		unsupported: 'warning',
+		experimental: 'warning',
+		obsolete: 'warning'
+	}
 };
 
 const modeConfigurationDefault: Required<ModeConfiguration> = {
@@ -259,23 +590,44 @@ const modeConfigurationDefault: Required<ModeConfiguration> = {
 	colors: true,
 	foldingRanges: true,
 	diagnostics: true,
-	selectionRanges: true
+	selectionRanges: true,
+	codeActions: true,
+	documentFormattingEdits: true,
+	documentRangeFormattingEdits: true,
+	inlayHints: true,
+	semanticTokens: true,
+	signatureHelp: true
 };
 
-export const cssInJsDefaults: (editor: IEditorInjection) => LanguageServiceDefaults = (
-	editor: IEditorInjection
-) => new LanguageServiceDefaultsImpl('cssInJs', optionsDefault, modeConfigurationDefault, editor);
+const languageIdDefault: { [dialect in CSSDialect]: string } = {
+	scss: 'cssInJs',
+	css: 'cssInJsCss',
+	less: 'cssInJsLess'
+};
 
-function getMode(): Promise<typeof mode> {
-	return import('./cssMode');
-}
+/**
+ * Creates the defaults of a css-in-js mode. Modes of different dialects can be set up side by side,
+ * each dialect registers its own language id unless `languageId` is given.
+ */
+export const cssInJsDefaults = (
+	editor: IEditorInjection,
+	dialect: CSSDialect = 'scss',
+	languageId: string = languageIdDefault[dialect]
+): LanguageServiceDefaults =>
+	new LanguageServiceDefaultsImpl(
+		languageId,
+		dialect,
+		optionsDefault,
+		modeConfigurationDefault,
+		editor
+	);
 
 export const setupCssInJsLang = (
-	worker: CSSInJSWorker,
+	worker: CSSInJSWorker | WorkerAccessor,
 	languages: ILanguagesInjection,
 	editor: IEditorInjection,
 	defaults: LanguageServiceDefaults = null
-) => {
+): IDisposable => {
 	if (!defaults) {
 		defaults = cssInJsDefaults(editor);
 	}
@@ -286,40 +638,189 @@ export const setupCssInJsLang = (
 		id: languageId
 	});
 
-	languages.setMonarchTokensProvider(languageId, cssInJsLang.language as any);
+	languages.setMonarchTokensProvider(languageId, getMonarchLanguage(defaults.dialect) as any);
 	languages.setLanguageConfiguration(languageId, cssInJsLang.conf as any);
 
-	cssMode.setupMode(worker, defaults, editor, languages);
+	return cssMode.setupMode(toWorkerAccessor(worker, editor), defaults, editor, languages);
 };
 
-export const setupValidation = (
-	worker: CSSInJSWorker,
-	editor: IEditor,
+/**
+ * Provides completion, hovers, colors and diagnostics inside the styled-components and emotion
+ * templates of JavaScript and TypeScript models. `worker` must be created with the `embedded` syntax,
+ * the tags are configured by `defaults.options.embedded`.
+ */
+export const setupEmbeddedCssInJs = (
+	worker: CSSInJSWorker | WorkerAccessor,
+	languages: ILanguagesInjection,
+	editor: IEditorInjection,
+	defaults: LanguageServiceDefaults = null,
+	hostLanguageIds: string[] = ['javascript', 'typescript']
+): IDisposable => {
+	if (!defaults) {
+		defaults = cssInJsDefaults(editor);
+	}
+
+	return cssMode.setupEmbeddedMode(
+		toWorkerAccessor(worker, editor),
+		defaults,
+		editor,
+		languages,
+		hostLanguageIds
+	);
+};
+
+/**
+ * Registers a language for object styles (emotion's `css({ … })`, JSS) and provides completion,
+ * hovers, colors and diagnostics for its models. `worker` must be created with the `object` syntax.
+ */
+export const setupObjectStyles = (
+	worker: CSSInJSWorker | WorkerAccessor,
+	languages: ILanguagesInjection,
+	editor: IEditorInjection,
+	defaults: LanguageServiceDefaults = null,
+	languageId: string = 'cssInJsObject'
+): IDisposable => {
+	if (!defaults) {
+		defaults = cssInJsDefaults(editor);
+	}
+
+	languages.register({
+		id: languageId
+	});
+	languages.setLanguageConfiguration(languageId, cssInJsLang.conf as any);
+
+	return cssMode.setupEmbeddedMode(
+		toWorkerAccessor(worker, editor),
+		defaults,
+		editor,
+		languages,
+		[languageId],
+		'object'
+	);
+};
+
+/**
+ * Validates every model of the language as it is created or changed. One call serves all editors.
+ */
+export function setupValidation(
+	worker: CSSInJSWorker | WorkerAccessor,
 	editorInjection: IEditorInjection,
-	defaults: LanguageServiceDefaults = null
-) => {
+	defaults?: LanguageServiceDefaults
+): IDisposable;
+/**
+ * @deprecated the editor isn't needed anymore, use `setupValidation(worker, editorInjection, defaults)`
+ */
+export function setupValidation(
+	worker: CSSInJSWorker | WorkerAccessor,
+	codeEditor: editor.ICodeEditor,
+	editorInjection: IEditorInjection,
+	defaults?: LanguageServiceDefaults
+): IDisposable;
+export function setupValidation(
+	worker: CSSInJSWorker | WorkerAccessor,
+	editorInjection: IEditorInjection | editor.ICodeEditor,
+	defaultsOrInjection: LanguageServiceDefaults | IEditorInjection = null,
+	legacyDefaults: LanguageServiceDefaults = null
+): IDisposable {
+	if (!('setModelMarkers' in editorInjection)) {
+		// the positional form of earlier versions, the editor came before the injection
+		return setupValidation(worker, defaultsOrInjection as IEditorInjection, legacyDefaults);
+	}
+	let defaults = defaultsOrInjection as LanguageServiceDefaults;
 	if (!defaults) {
 		defaults = cssInJsDefaults(editorInjection);
 	}
 
-	const wa: WorkerAccessor = () => Promise.resolve(worker);
+	return new DiagnosticsAdapter(
+		defaults.languageId,
+		toWorkerAccessor(worker, editorInjection),
+		editorInjection,
+		defaults
+	);
+}
 
-	new DiagnosticsAdapter(defaults.languageId, editor, worker, editorInjection);
+/**
+ * Creates a `CSSInJSWorker` on the main thread, configured from `defaults`.
+ * `syntax` tells which models it serves, see `StyleSyntax`. Disposing the worker stops it
+ * following `defaults` and the models of the editor.
+ */
+export const createMainThreadWorker = (
+	editor: IEditorInjection,
+	defaults: LanguageServiceDefaults = null,
+	syntax: StyleSyntax = 'template'
+): CSSInJSWorker & IDisposable => {
+	if (!defaults) {
+		defaults = cssInJsDefaults(editor);
+	}
+
+	const worker = new CSSInJSWorker(createMainThreadContext(editor), {
+		languageId: defaults.languageId,
+		options: defaults.options,
+		syntax,
+		dialect: defaults.dialect,
+		libraryDocuments: defaults.libraryDocuments
+	});
+	worker.setLintRules(defaults.lintRules);
+	const disposables = [
+		defaults.onDidChange((newDefaults) => {
+			worker.setOptions(newDefaults.options);
+			worker.setLibraryDocuments(newDefaults.libraryDocuments);
+			worker.setLintRules(newDefaults.lintRules);
+		}),
+		editor.onWillDisposeModel((model) => worker.releaseDocument(model.uri.toString()))
+	];
+
+	const mainThreadWorker = worker as CSSInJSWorker & IDisposable;
+	mainThreadWorker.dispose = () => {
+		disposables.forEach((d) => d.dispose());
+	};
+	return mainThreadWorker;
 };
 
-export { CSSInJSWorker };
+/**
+ * Runs the language service in a Monaco web worker instead of on the main thread.
+ * Pass the returned accessor to `setupCssInJsLang` and `setupValidation` in place of a `CSSInJSWorker`.
+ */
+export const createWebWorkerAccessor = (
+	editor: IEditorInjection,
+	defaults: LanguageServiceDefaults = null,
+	syntax: StyleSyntax = 'template'
+): WorkerAccessor => {
+	if (!defaults) {
+		defaults = cssInJsDefaults(editor);
+	}
+
+	const client = new WorkerManager(defaults, editor, syntax);
 
-// languages.onLanguage('less', () => {
-// 	getMode().then((mode) => mode.setupMode(lessDefaults));
-// });
+	return (...uris: Uri[]): Promise<CSSInJSWorker> => {
+		return client.getLanguageServiceWorker(...uris);
+	};
+};
 
-// languages.onLanguage('scss', () => {
-// 	getMode().then((mode) => mode.setupMode(scssDefaults));
-// });
+function getMonarchLanguage(dialect: CSSDialect) {
+	switch (dialect) {
+		case 'css':
+			return cssInJsLang.cssLanguage;
+		case 'less':
+			return cssInJsLang.lessLanguage;
+		default:
+			return cssInJsLang.language;
+	}
+}
+
+function toWorkerAccessor(
+	worker: CSSInJSWorker | WorkerAccessor,
+	editor: IEditorInjection
+): WorkerAccessor {
+	if (typeof worker === 'function') {
+		return worker;
+	}
+	// a worker created with `new CSSInJSWorker()` has no models of its own
+	worker.attachContext(createMainThreadContext(editor));
+	return () => Promise.resolve(worker);
+}
 
-// languages.onLanguage('css', () => {
-// 	getMode().then((mode) => mode.setupMode(cssDefaults));
-// });
+export { CSSInJSWorker, WorkerAccessor, createMainThreadContext };
 
 // CSS Data
 
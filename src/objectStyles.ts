@@ -0,0 +1,318 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cssService from 'vscode-css-languageservice';
+import { OffsetMapBuilder } from './documentMapping';
+import { appendWithPlaceholders, scanString, scanTemplate } from './templateInterpolation';
+
+interface Key {
+	/** the key without quotes, empty for a computed key */
+	value: string;
+	start: number;
+	end: number;
+	/** offset after the key, including its closing quote */
+	next: number;
+	computed: boolean;
+}
+
+/**
+ * Appends the declarations of the first object literal in `text` to `builder` as SCSS:
+ * `{ backgroundColor: 'red', '&:hover': { color: 'blue' } }` becomes
+ * `background-color: red;\n&:hover {\ncolor: blue;\n}\n`.
+ * Property names, string contents and numbers map back onto the object literal, other values
+ * (identifiers, calls, arrays) become placeholders.
+ */
+export function appendObjectStyles(builder: OffsetMapBuilder, text: string): void {
+	const start = skipTrivia(text, 0);
+	if (text.charAt(start) === '{') {
+		new ObjectStyleConverter(builder, text).convertObject(start + 1);
+	}
+}
+
+/**
+ * Converts a CSS property name into the key of an object style, e.g. `-webkit-box-flex` into `WebkitBoxFlex`.
+ * Custom properties are returned unchanged.
+ */
+export function toObjectStyleKey(property: string): string {
+	if (property.indexOf('--') === 0) {
+		return property;
+	}
+	const key = property.replace(/-([a-z])/g, (_, ch: string) => ch.toUpperCase());
+	// `-ms-` is the only vendor prefix that stays lowercase
+	return key.indexOf('Ms') === 0 ? 'ms' + key.substring(2) : key;
+}
+
+/**
+ * Converts the key of an object style into a CSS property name, e.g. `WebkitBoxFlex` into `-webkit-box-flex`.
+ */
+export function toPropertyName(key: string): string {
+	if (key.indexOf('--') === 0) {
+		return key;
+	}
+	const property = key.replace(/[A-Z]/g, (ch) => '-' + ch.toLowerCase());
+	return property.indexOf('ms-') === 0 ? '-' + property : property;
+}
+
+/**
+ * Rewrites a property completion of the language service for an object style:
+ * `background-color: $0;` is inserted as `backgroundColor: '$0'`.
+ */
+export function toObjectStyleCompletion(
+	item: cssService.CompletionItem
+): cssService.CompletionItem {
+	if (item.kind !== cssService.CompletionItemKind.Property) {
+		return item;
+	}
+	const key = toObjectStyleKey(item.label);
+	const toKeyValue = (newText: string) => {
+		const match = /^([\w-]+)\s*:\s*([^;]*);?\s*$/.exec(newText);
+		return match ? `${toObjectStyleKey(match[1])}: '${match[2]}'` : toObjectStyleKey(newText);
+	};
+	const result: cssService.CompletionItem = {
+		...item,
+		label: key,
+		filterText: key,
+		sortText: item.sortText
+	};
+	if (item.insertText) {
+		result.insertText = toKeyValue(item.insertText);
+	}
+	if (item.textEdit) {
+		result.textEdit = { ...item.textEdit, newText: toKeyValue(item.textEdit.newText) };
+	}
+	// the language service retriggers completion for the value, which would be offered unquoted
+	delete result.command;
+	return result;
+}
+
+class ObjectStyleConverter {
+	private _placeholderCount = 0;
+
+	constructor(private _builder: OffsetMapBuilder, private _text: string) {}
+
+	/**
+	 * Converts the members of the object literal whose body starts at `offset`,
+	 * returns the offset after its closing brace.
+	 */
+	public convertObject(offset: number): number {
+		const text = this._text;
+		let i = offset;
+		while (true) {
+			i = skipTrivia(text, i);
+			const ch = text.charAt(i);
+			if (i >= text.length || ch === '}') {
+				return i + 1;
+			}
+			if (ch === ',') {
+				i++;
+				continue;
+			}
+			if (text.substr(i, 3) === '...') {
+				// spread of another style object
+				i = skipExpression(text, i + 3);
+				continue;
+			}
+
+			const key = readKey(text, i);
+			if (!key) {
+				// not a member, e.g. a method; skip to the next one
+				i = skipExpression(text, i + 1);
+				continue;
+			}
+			i = skipTrivia(text, key.next);
+			if (text.charAt(i) !== ':') {
+				// shorthand property, most likely a property name being typed
+				this._appendPropertyName(key);
+				this._builder.appendSynthetic('\n');
+				continue;
+			}
+			i = skipTrivia(text, i + 1);
+
+			if (text.charAt(i) === '{') {
+				if (key.computed) {
+					// e.g. `[theme.breakpoints.up('md')]: { … }`
+					this._builder.appendPlaceholder(`.__key${this._placeholderCount++}`, key.start, key.end);
+				} else {
+					this._builder.appendSource(key.value, key.start, key.end);
+				}
+				this._builder.appendSynthetic(' {\n');
+				i = this.convertObject(i + 1);
+				this._builder.appendSynthetic('}\n');
+				continue;
+			}
+
+			this._appendPropertyName(key);
+			this._builder.appendSynthetic(': ');
+			i = this._appendValue(i);
+			this._builder.appendSynthetic(';\n');
+		}
+	}
+
+	private _appendPropertyName(key: Key): void {
+		if (key.computed) {
+			this._builder.appendPlaceholder(`--__key${this._placeholderCount++}`, key.start, key.end);
+		} else {
+			this._builder.appendSource(toPropertyName(key.value), key.start, key.end);
+		}
+	}
+
+	private _appendValue(offset: number): number {
+		const text = this._text;
+		const ch = text.charAt(offset);
+		let end: number;
+		if (isQuote(ch)) {
+			end = scanString(text, offset + 1, ch);
+			if (isMemberEnd(text, end)) {
+				const closed = text.charAt(end - 1) === ch && end - 1 > offset;
+				this._builder.appendSource(
+					text.substring(offset + 1, closed ? end - 1 : end),
+					offset + 1,
+					closed ? end - 1 : end
+				);
+				return end;
+			}
+		} else if (ch === '`') {
+			end = scanTemplate(text, offset + 1);
+			if (end !== -1 && isMemberEnd(text, end)) {
+				this._placeholderCount += appendWithPlaceholders(
+					this._builder,
+					text.substring(offset + 1, end - 1),
+					offset + 1,
+					this._placeholderCount
+				).length;
+				return end;
+			}
+		} else {
+			const match = /^-?(\d+\.?\d*|\.\d+)/.exec(text.substring(offset));
+			if (match && isMemberEnd(text, offset + match[0].length)) {
+				this._builder.appendSource(match[0], offset);
+				return offset + match[0].length;
+			}
+		}
+
+		// any other expression
+		end = skipExpression(text, offset);
+		let expressionEnd = end;
+		while (expressionEnd > offset && /\s/.test(text.charAt(expressionEnd - 1))) {
+			expressionEnd--;
+		}
+		if (expressionEnd > offset) {
+			this._builder.appendPlaceholder(
+				`__expression${this._placeholderCount++}`,
+				offset,
+				expressionEnd
+			);
+		}
+		return end;
+	}
+}
+
+function readKey(text: string, offset: number): Key | undefined {
+	const ch = text.charAt(offset);
+	if (isQuote(ch)) {
+		const end = scanString(text, offset + 1, ch);
+		const closed = end - 1 > offset && text.charAt(end - 1) === ch;
+		const valueEnd = closed ? end - 1 : end;
+		return {
+			value: text.substring(offset + 1, valueEnd),
+			start: offset + 1,
+			end: valueEnd,
+			next: end,
+			computed: false
+		};
+	}
+	if (ch === '[') {
+		const end = skipBrackets(text, offset);
+		return { value: '', start: offset, end, next: end, computed: true };
+	}
+	const match = /^[\w$-]+/.exec(text.substring(offset));
+	if (!match) {
+		return undefined;
+	}
+	const end = offset + match[0].length;
+	return { value: match[0], start: offset, end, next: end, computed: false };
+}
+
+function isQuote(ch: string): boolean {
+	return ch === '"' || ch === "'";
+}
+
+function isMemberEnd(text: string, offset: number): boolean {
+	const i = skipTrivia(text, offset);
+	return i >= text.length || text.charAt(i) === ',' || text.charAt(i) === '}';
+}
+
+function skipTrivia(text: string, offset: number): number {
+	let i = offset;
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (/\s/.test(ch)) {
+			i++;
+		} else if (ch === '/' && text.charAt(i + 1) === '/') {
+			const end = text.indexOf('\n', i);
+			i = end === -1 ? text.length : end;
+		} else if (ch === '/' && text.charAt(i + 1) === '*') {
+			const end = text.indexOf('*/', i + 2);
+			i = end === -1 ? text.length : end + 2;
+		} else {
+			break;
+		}
+	}
+	return i;
+}
+
+/**
+ * Returns the offset of the `,` or `}` that ends the expression starting at `offset`.
+ */
+function skipExpression(text: string, offset: number): number {
+	let i = offset;
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (ch === ',' || ch === '}') {
+			return i;
+		}
+		if (isQuote(ch)) {
+			i = scanString(text, i + 1, ch);
+		} else if (ch === '`') {
+			const end = scanTemplate(text, i + 1);
+			i = end === -1 ? text.length : end;
+		} else if (ch === '(' || ch === '[' || ch === '{') {
+			i = skipBrackets(text, i);
+		} else {
+			i++;
+		}
+	}
+	return i;
+}
+
+/**
+ * Returns the offset after the bracket that closes the one at `offset`.
+ */
+function skipBrackets(text: string, offset: number): number {
+	let depth = 0;
+	let i = offset;
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (isQuote(ch)) {
+			i = scanString(text, i + 1, ch);
+			continue;
+		}
+		if (ch === '`') {
+			const end = scanTemplate(text, i + 1);
+			i = end === -1 ? text.length : end;
+			continue;
+		}
+		if (ch === '(' || ch === '[' || ch === '{') {
+			depth++;
+		} else if (ch === ')' || ch === ']' || ch === '}') {
+			depth--;
+			if (depth === 0) {
+				return i + 1;
+			}
+		}
+		i++;
+	}
+	return i;
+}
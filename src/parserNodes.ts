@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// The parser nodes of vscode-css-languageservice 5 are not part of its typings, these are the
+// node types and methods the worker reads.
+
+export const NodeType = {
+	Identifier: 1,
+	Ruleset: 3,
+	Selector: 4,
+	Page: 12,
+	Declaration: 19,
+	Property: 21,
+	Function: 30,
+	MixinDeclaration: 34,
+	MixinReference: 35,
+	VariableName: 36,
+	VariableDeclaration: 37,
+	ExtendsReference: 41,
+	Debug: 43,
+	If: 44,
+	Else: 45,
+	For: 46,
+	Each: 47,
+	While: 48,
+	MixinContentReference: 49,
+	Media: 51,
+	Keyframe: 52,
+	FontFace: 53,
+	Import: 54,
+	Namespace: 55,
+	FunctionDeclaration: 57,
+	ReturnStatement: 58,
+	FunctionParameter: 62,
+	ViewPort: 65,
+	Document: 66,
+	AtApplyRule: 67,
+	CustomPropertyDeclaration: 68,
+	Supports: 71,
+	UnknownAtRule: 76,
+	Use: 77,
+	Forward: 79
+};
+
+export interface Node {
+	type: number;
+	offset: number;
+	length: number;
+	parent: Node | null;
+	getChildren(): Node[];
+	getText(): string;
+	getName?(): string;
+	getIdentifier?(): Node | undefined;
+	getProperty?(): Node | undefined;
+	getFullPropertyName?(): string;
+	getVariable?(): Node | undefined;
+	getValue?(): Node | undefined;
+	getParameters?(): Node;
+	/** of a ruleset */
+	getSelectors?(): Node;
+	getDeclarations?(): Node | undefined;
+}
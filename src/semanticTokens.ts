@@ -0,0 +1,248 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cssService from 'vscode-css-languageservice';
+import { MappedDocument } from './documentMapping';
+import { Node, NodeType } from './parserNodes';
+
+/**
+ * The token types of the semantic tokens, in the order of the legend.
+ */
+export const SEMANTIC_TOKEN_TYPES = [
+	'property',
+	'variable',
+	'selector',
+	'interpolation',
+	'atRule',
+	'mixin',
+	'function'
+];
+
+/**
+ * The token modifiers of the semantic tokens, in the order of the legend.
+ */
+export const SEMANTIC_TOKEN_MODIFIERS = ['declaration', 'unknown'];
+
+export interface SemanticToken {
+	/** offsets in the user document, on a single line */
+	start: number;
+	end: number;
+	/** index into `SEMANTIC_TOKEN_TYPES` */
+	tokenType: number;
+	/** bit set of the indices into `SEMANTIC_TOKEN_MODIFIERS` */
+	tokenModifiers: number;
+}
+
+// the nodes that start with the name of their at-rule, e.g. `@media`
+const AT_RULE_NODE_TYPES = [
+	NodeType.Page,
+	NodeType.MixinDeclaration,
+	NodeType.MixinReference,
+	NodeType.ExtendsReference,
+	NodeType.Debug,
+	NodeType.If,
+	NodeType.For,
+	NodeType.Each,
+	NodeType.While,
+	NodeType.MixinContentReference,
+	NodeType.Media,
+	NodeType.Keyframe,
+	NodeType.FontFace,
+	NodeType.Import,
+	NodeType.Namespace,
+	NodeType.FunctionDeclaration,
+	NodeType.ReturnStatement,
+	NodeType.ViewPort,
+	NodeType.Document,
+	NodeType.AtApplyRule,
+	NodeType.Supports,
+	NodeType.UnknownAtRule,
+	NodeType.Use,
+	NodeType.Forward
+];
+
+const DECLARATION = 1 << SEMANTIC_TOKEN_MODIFIERS.indexOf('declaration');
+const UNKNOWN = 1 << SEMANTIC_TOKEN_MODIFIERS.indexOf('unknown');
+
+/**
+ * Classifies the parsed stylesheet of a document: properties, also whether the CSS data knows
+ * them, variables and custom properties, selectors, at-rules, SCSS mixins and functions, and the
+ * `${…}` placeholders of a template. The tokens are sorted and don't overlap.
+ */
+export function findSemanticTokens(
+	document: MappedDocument,
+	stylesheet: cssService.Stylesheet,
+	isKnownProperty: (name: string) => boolean
+): SemanticToken[] {
+	const text = document.document.getText();
+	const tokens: SemanticToken[] = [];
+	const add = (start: number, end: number, type: string, modifiers: number = 0) => {
+		const range = document.map.toSourceRange(start, end, false);
+		if (range && range.start < range.end) {
+			tokens.push({
+				start: range.start,
+				end: range.end,
+				tokenType: SEMANTIC_TOKEN_TYPES.indexOf(type),
+				tokenModifiers: modifiers
+			});
+		}
+	};
+	const addNode = (node: Node | undefined, type: string, modifiers?: number) => {
+		if (node) {
+			add(node.offset, node.offset + node.length, type, modifiers);
+		}
+	};
+
+	// functions are told apart from the CSS functions by the `@function` rules of the document
+	const functions = new Set<string>();
+	visit(stylesheet as Node, (node) => {
+		if (node.type === NodeType.FunctionDeclaration) {
+			functions.add(node.getName());
+		}
+		return true;
+	});
+
+	visit(stylesheet as Node, (node) => {
+		if (AT_RULE_NODE_TYPES.indexOf(node.type) !== -1) {
+			const name = /^@[\w-]+/.exec(text.substr(node.offset, 100));
+			if (name) {
+				add(node.offset, node.offset + name[0].length, 'atRule');
+			}
+		}
+		// the `@else` of an else clause is left out of its node
+		if (node.parent && node.parent.type === NodeType.If) {
+			const before = text.substring(node.parent.offset, node.offset);
+			const keyword = /@else\s*$/.exec(before);
+			if (keyword && (node.type === NodeType.If || node.type === NodeType.Else)) {
+				const start = node.parent.offset + keyword.index;
+				add(start, start + '@else'.length, 'atRule');
+			}
+		}
+		switch (node.type) {
+			case NodeType.Selector:
+				addNode(node, 'selector');
+				// a selector is one token, whatever it's made of
+				return false;
+			case NodeType.Declaration: {
+				const name = node.getFullPropertyName().toLowerCase();
+				const known = isVendorSpecific(name) || isKnownProperty(name);
+				addNode(node.getProperty(), 'property', known ? 0 : UNKNOWN);
+				break;
+			}
+			case NodeType.CustomPropertyDeclaration:
+				addNode(node.getProperty(), 'variable', DECLARATION);
+				break;
+			case NodeType.Property:
+				// classified by its declaration
+				return false;
+			case NodeType.VariableName: {
+				const parentType = node.parent && node.parent.type;
+				const isDeclaration =
+					parentType === NodeType.VariableDeclaration || parentType === NodeType.FunctionParameter;
+				addNode(node, 'variable', isDeclaration ? DECLARATION : 0);
+				break;
+			}
+			case NodeType.Identifier:
+				// a custom property outside of its declaration, e.g. in `var(--brand)`
+				if (node.getText().indexOf('--') === 0) {
+					addNode(node, 'variable');
+				}
+				break;
+			case NodeType.MixinDeclaration:
+				addNode(node.getIdentifier(), 'mixin', DECLARATION);
+				break;
+			case NodeType.MixinReference:
+				addNode(node.getIdentifier(), 'mixin');
+				break;
+			case NodeType.FunctionDeclaration:
+				addNode(node.getIdentifier(), 'function', DECLARATION);
+				break;
+			case NodeType.Function:
+				if (functions.has(node.getName())) {
+					addNode(node.getIdentifier(), 'function');
+				}
+				break;
+		}
+		return true;
+	});
+
+	const placeholders = document.map.getPlaceholders();
+	const result: SemanticToken[] = placeholders.map((placeholder) => ({
+		start: placeholder.start,
+		end: placeholder.end,
+		tokenType: SEMANTIC_TOKEN_TYPES.indexOf('interpolation'),
+		tokenModifiers: 0
+	}));
+	// what the language service saw in place of a placeholder is not in the user document
+	for (const token of tokens) {
+		result.push(...subtract(token, placeholders));
+	}
+	result.sort((a, b) => a.start - b.start || b.end - a.end);
+	return splitLines(removeOverlaps(result), document.source.getText());
+}
+
+function visit(node: Node, callback: (node: Node) => boolean): void {
+	if (callback(node)) {
+		for (const child of node.getChildren()) {
+			visit(child, callback);
+		}
+	}
+}
+
+function isVendorSpecific(name: string): boolean {
+	return /^-[a-z]+-/.test(name);
+}
+
+function subtract(token: SemanticToken, ranges: { start: number; end: number }[]): SemanticToken[] {
+	let pieces = [token];
+	for (const range of ranges) {
+		pieces = pieces.reduce<SemanticToken[]>((result, piece) => {
+			if (range.end <= piece.start || piece.end <= range.start) {
+				result.push(piece);
+				return result;
+			}
+			if (piece.start < range.start) {
+				result.push({ ...piece, end: range.start });
+			}
+			if (range.end < piece.end) {
+				result.push({ ...piece, start: range.end });
+			}
+			return result;
+		}, []);
+	}
+	return pieces;
+}
+
+// keeps the first of overlapping tokens, the longer one if they start together
+function removeOverlaps(tokens: SemanticToken[]): SemanticToken[] {
+	const result: SemanticToken[] = [];
+	let end = 0;
+	for (const token of tokens) {
+		if (token.start >= end) {
+			result.push(token);
+			end = token.end;
+		}
+	}
+	return result;
+}
+
+// a token must not span lines, the parts of a multi-line token leave out the indentation
+function splitLines(tokens: SemanticToken[], text: string): SemanticToken[] {
+	const result: SemanticToken[] = [];
+	for (const token of tokens) {
+		let start = token.start;
+		while (start < token.end) {
+			const lineEnd = text.indexOf('\n', start);
+			const end = lineEnd === -1 || lineEnd > token.end ? token.end : lineEnd;
+			const content = /\S(?:.*\S)?/.exec(text.substring(start, end));
+			if (content) {
+				const pieceStart = start + content.index;
+				result.push({ ...token, start: pieceStart, end: pieceStart + content[0].length });
+			}
+			start = end + 1;
+		}
+	}
+	return result;
+}
@@ -0,0 +1,149 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cssService from 'vscode-css-languageservice';
+import { SignatureHelp, SignatureInformation } from 'vscode-languageserver-types';
+import { FunctionSignature, functionSignatures } from './functionSignatures';
+import { Node, NodeType } from './parserNodes';
+import { scanString } from './templateInterpolation';
+
+interface Call {
+	/** e.g. `clamp`, or `.mixin` for a LESS mixin */
+	name: string;
+	/** whether a mixin is called, with `@include` or as a LESS mixin */
+	isMixin: boolean;
+	/** the number of commas between the opening parenthesis and the cursor */
+	commas: number;
+}
+
+interface OpenParenthesis {
+	/** undefined for a parenthesis that doesn't follow a name, e.g. in `(1 + 2)` */
+	call: Call | undefined;
+}
+
+/**
+ * Finds the signatures of the call around `offset`: the `@function` and `@mixin` rules of the
+ * stylesheet, or the CSS functions. The active parameter follows the commas before `offset`.
+ */
+export function getSignatureHelp(
+	text: string,
+	offset: number,
+	stylesheet: cssService.Stylesheet
+): SignatureHelp | null {
+	const call = findCall(text, offset);
+	if (!call) {
+		return null;
+	}
+	let signatures = findDeclaredSignatures(stylesheet, call.isMixin).filter(
+		(signature) => signature.name === call.name
+	);
+	if (!signatures.length && !call.isMixin) {
+		const name = call.name.toLowerCase();
+		signatures = functionSignatures.filter((signature) => signature.name === name);
+	}
+	if (!signatures.length) {
+		return null;
+	}
+	// the first overload with enough parameters, or the one with the most
+	let activeSignature = signatures.length - 1;
+	for (let i = 0; i < signatures.length; i++) {
+		if (isVariadic(signatures[i]) || call.commas < signatures[i].parameters.length) {
+			activeSignature = i;
+			break;
+		}
+	}
+	const parameterCount = signatures[activeSignature].parameters.length;
+	return {
+		signatures: signatures.map(toSignatureInformation),
+		activeSignature,
+		activeParameter: Math.max(0, Math.min(call.commas, parameterCount - 1))
+	};
+}
+
+function toSignatureInformation(signature: FunctionSignature): SignatureInformation {
+	return {
+		label: `${signature.name}(${signature.parameters.join(', ')})`,
+		documentation: signature.description || undefined,
+		parameters: signature.parameters.map((parameter) => ({ label: parameter }))
+	};
+}
+
+function isVariadic(signature: FunctionSignature): boolean {
+	const parameters = signature.parameters;
+	return !!parameters.length && /…$/.test(parameters[parameters.length - 1]);
+}
+
+/**
+ * Finds the innermost call whose argument list holds `offset`. The text is scanned from its start
+ * so that strings, comments and nested parentheses are skipped.
+ */
+function findCall(text: string, offset: number): Call | undefined {
+	let open: OpenParenthesis[] = [];
+	let i = 0;
+	while (i < offset) {
+		const ch = text.charAt(i);
+		if (ch === '/' && text.charAt(i + 1) === '*') {
+			const end = text.indexOf('*/', i + 2);
+			i = end === -1 ? text.length : end + 2;
+			continue;
+		}
+		if (ch === '"' || ch === "'") {
+			i = scanString(text, i + 1, ch);
+			continue;
+		}
+		if (ch === '(') {
+			open.push({ call: toCall(text, i) });
+		} else if (ch === ')') {
+			open.pop();
+		} else if (ch === ',' && open.length && open[open.length - 1].call) {
+			open[open.length - 1].call.commas++;
+		} else if ((ch === ';' || ch === '{' || ch === '}') && open.length) {
+			// a statement ends, whatever was left open
+			open = [];
+		}
+		i++;
+	}
+	for (let j = open.length - 1; j >= 0; j--) {
+		if (open[j].call) {
+			return open[j].call;
+		}
+	}
+	return undefined;
+}
+
+// the name in front of the parenthesis at `offset`, unless it declares the function or mixin
+function toCall(text: string, offset: number): Call | undefined {
+	const before = text.substring(Math.max(0, offset - 100), offset);
+	const match = /(@[\w-]+\s+)?([.#]?[\w-]+)$/.exec(before);
+	if (!match || /^@(function|mixin)\b/.test(match[1] || '')) {
+		return undefined;
+	}
+	const name = match[2];
+	return { name, isMixin: /^@include\b/.test(match[1] || '') || /^[.#]/.test(name), commas: 0 };
+}
+
+function findDeclaredSignatures(
+	stylesheet: cssService.Stylesheet,
+	mixins: boolean
+): FunctionSignature[] {
+	const result: FunctionSignature[] = [];
+	const visit = (node: Node) => {
+		if (node.type === (mixins ? NodeType.MixinDeclaration : NodeType.FunctionDeclaration)) {
+			const parameters = node.getParameters();
+			result.push({
+				name: node.getName(),
+				parameters: parameters
+					? parameters.getChildren().map((parameter) => parameter.getText())
+					: [],
+				description: ''
+			});
+		}
+		for (const child of node.getChildren()) {
+			visit(child);
+		}
+	};
+	visit(stylesheet as Node);
+	return result;
+}
@@ -0,0 +1,175 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { scanString, scanTemplate } from './templateInterpolation';
+import type { EmbeddedConfiguration } from './monaco.contribution';
+
+export type TaggedTemplateKind = 'style' | 'keyframes' | 'globalStyle';
+
+export interface TaggedTemplate {
+	kind: TaggedTemplateKind;
+	/** the tag expression without whitespace, e.g. `styled.div` */
+	tag: string;
+	/** offset after the opening backtick */
+	start: number;
+	/** offset of the closing backtick */
+	end: number;
+}
+
+/**
+ * Finds the template literals of a JavaScript or TypeScript source whose tag matches one of the
+ * configured patterns. Templates nested in the `${…}` expressions of another template are not reported.
+ */
+export function findTaggedTemplates(
+	text: string,
+	configuration: EmbeddedConfiguration
+): TaggedTemplate[] {
+	const matchers: { kind: TaggedTemplateKind; pattern: RegExp }[] = [];
+	const addMatchers = (kind: TaggedTemplateKind, tags: string[]) => {
+		for (const tag of tags || []) {
+			matchers.push({ kind, pattern: toRegExp(tag) });
+		}
+	};
+	addMatchers('style', configuration.styleTags);
+	addMatchers('keyframes', configuration.keyframesTags);
+	addMatchers('globalStyle', configuration.globalStyleTags);
+
+	const result: TaggedTemplate[] = [];
+	let i = 0;
+	// the last character that is not whitespace or part of a comment, to tell regular expressions from divisions
+	let previous = '';
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (ch === '/' && text.charAt(i + 1) === '/') {
+			const end = text.indexOf('\n', i);
+			i = end === -1 ? text.length : end;
+			continue;
+		}
+		if (ch === '/' && text.charAt(i + 1) === '*') {
+			const end = text.indexOf('*/', i + 2);
+			i = end === -1 ? text.length : end + 2;
+			continue;
+		}
+		if (ch === '"' || ch === "'") {
+			i = scanString(text, i + 1, ch);
+			previous = ch;
+			continue;
+		}
+		if (ch === '/' && (previous === '' || '(,=:[!&|?{};+-*%<>~^'.indexOf(previous) !== -1)) {
+			i = skipRegExp(text, i + 1);
+			previous = '/';
+			continue;
+		}
+		if (ch === '`') {
+			const end = scanTemplate(text, i + 1);
+			if (end === -1) {
+				break;
+			}
+			const tag = getTag(text, i);
+			for (const matcher of matchers) {
+				if (tag && matcher.pattern.test(tag)) {
+					result.push({ kind: matcher.kind, tag, start: i + 1, end: end - 1 });
+					break;
+				}
+			}
+			i = end;
+			previous = '`';
+			continue;
+		}
+		if (!/\s/.test(ch)) {
+			previous = ch;
+		}
+		i++;
+	}
+	return result;
+}
+
+/**
+ * Reads the tag expression in front of the backtick at `offset`: a member chain with optional
+ * call arguments and type arguments, e.g. `styled(Button).attrs({ type: 'submit' })<Props>`.
+ * Type arguments and whitespace are removed.
+ */
+function getTag(text: string, offset: number): string {
+	let end = offset;
+	while (end > 0 && /\s/.test(text.charAt(end - 1))) {
+		end--;
+	}
+	let start = end;
+	while (start > 0) {
+		const ch = text.charAt(start - 1);
+		if (/[\w$.]/.test(ch)) {
+			start--;
+		} else if (ch === ')' || ch === '>') {
+			const open = findOpeningBracket(text, start - 1, ch === ')' ? '(' : '<', ch);
+			if (open === -1) {
+				break;
+			}
+			start = open;
+		} else if (/\s/.test(ch) && /[.(<]/.test(text.charAt(start))) {
+			// line breaks inside a member chain, e.g. `styled\n  .div`
+			start--;
+		} else {
+			break;
+		}
+	}
+	let tag = text.substring(start, end).replace(/\s+/g, '');
+	let previousTag: string;
+	do {
+		previousTag = tag;
+		tag = tag.replace(/<[^<>]*>/g, '');
+	} while (tag !== previousTag);
+	return tag;
+}
+
+function findOpeningBracket(text: string, offset: number, open: string, close: string): number {
+	let depth = 0;
+	for (let i = offset; i >= 0; i--) {
+		const ch = text.charAt(i);
+		if (ch === close) {
+			depth++;
+		} else if (ch === open) {
+			depth--;
+			if (depth === 0) {
+				return i;
+			}
+		}
+	}
+	return -1;
+}
+
+/**
+ * `*` matches any sequence of characters, everything else matches itself.
+ */
+function toRegExp(pattern: string): RegExp {
+	const source = pattern
+		.split('*')
+		.map((part) => part.replace(/[\\^$.|?+()[\]{}]/g, '\\$&'))
+		.join('.*');
+	return new RegExp(`^${source}$`);
+}
+
+function skipRegExp(text: string, offset: number): number {
+	let inClass = false;
+	let i = offset;
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (ch === '\\') {
+			i += 2;
+			continue;
+		}
+		if (ch === '\n') {
+			return i;
+		}
+		if (ch === '[') {
+			inClass = true;
+		} else if (ch === ']') {
+			inClass = false;
+		} else if (ch === '/' && !inClass) {
+			return i + 1;
+		}
+		i++;
+	}
+	return i;
+}
@@ -0,0 +1,189 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { OffsetMapBuilder } from './documentMapping';
+
+export interface Interpolation {
+	/** offset of `$` */
+	start: number;
+	/** offset after the closing `}` */
+	end: number;
+}
+
+/**
+ * Finds the `${…}` expressions of a template literal body. An unterminated `${` is left as text.
+ */
+export function findInterpolations(text: string): Interpolation[] {
+	const result: Interpolation[] = [];
+	let i = 0;
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (ch === '\\') {
+			i += 2;
+			continue;
+		}
+		if (ch === '$' && text.charAt(i + 1) === '{') {
+			const end = scanExpression(text, i + 2);
+			if (end === -1) {
+				break;
+			}
+			result.push({ start: i, end });
+			i = end;
+			continue;
+		}
+		i++;
+	}
+	return result;
+}
+
+/**
+ * Appends `text` to `builder`, replacing every interpolation with a placeholder the language
+ * service accepts at that place: a class selector in selector position, an identifier in value
+ * position, a custom property name in property position and a comment for a whole statement.
+ * The placeholders are numbered from `firstIndex`, texts appended to the same document must
+ * not share numbers, because placeholders are restored by their name.
+ */
+export function appendWithPlaceholders(
+	builder: OffsetMapBuilder,
+	text: string,
+	sourceOffset: number = 0,
+	firstIndex: number = 0
+): Interpolation[] {
+	const interpolations = findInterpolations(text);
+
+	// punctuation inside the expressions must not influence the context of later ones
+	let masked = text;
+	for (const interpolation of interpolations) {
+		masked =
+			masked.substring(0, interpolation.start) +
+			masked.substring(interpolation.start, interpolation.end).replace(/[^\n]/g, 'x') +
+			masked.substring(interpolation.end);
+	}
+
+	let offset = 0;
+	interpolations.forEach((interpolation, index) => {
+		builder.appendSource(
+			text.substring(offset, interpolation.start),
+			sourceOffset + offset,
+			sourceOffset + interpolation.start
+		);
+		builder.appendPlaceholder(
+			getPlaceholder(masked, interpolation, firstIndex + index),
+			sourceOffset + interpolation.start,
+			sourceOffset + interpolation.end
+		);
+		offset = interpolation.end;
+	});
+	builder.appendSource(text.substring(offset), sourceOffset + offset, sourceOffset + text.length);
+
+	return interpolations;
+}
+
+function getPlaceholder(masked: string, interpolation: Interpolation, index: number): string {
+	const name = `__interpolation${index}`;
+
+	let statementStart = interpolation.start;
+	while (statementStart > 0 && '{};'.indexOf(masked.charAt(statementStart - 1)) === -1) {
+		statementStart--;
+	}
+	let statementEnd = interpolation.end;
+	while (statementEnd < masked.length && '{};'.indexOf(masked.charAt(statementEnd)) === -1) {
+		statementEnd++;
+	}
+	const before = masked.substring(statementStart, interpolation.start).trim();
+	const after = masked.substring(interpolation.end, statementEnd).trim();
+
+	if (before.charAt(0) === '@') {
+		// at-rule prelude, e.g. `@media ${mobile} {`
+		return name;
+	}
+	if (masked.charAt(statementEnd) === '{') {
+		return `.${name}`;
+	}
+	if (before.indexOf(':') !== -1) {
+		return name;
+	}
+	if (before.length === 0) {
+		return after.charAt(0) === ':' ? `--${name}` : `/*${name}*/`;
+	}
+	// part of a property name, e.g. `margin-${side}: 0`
+	return name;
+}
+
+function scanExpression(text: string, offset: number): number {
+	let depth = 0;
+	let i = offset;
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (ch === '"' || ch === "'") {
+			i = scanString(text, i + 1, ch);
+			continue;
+		}
+		if (ch === '`') {
+			i = scanTemplate(text, i + 1);
+			if (i === -1) {
+				return -1;
+			}
+			continue;
+		}
+		if (ch === '{') {
+			depth++;
+		} else if (ch === '}') {
+			if (depth === 0) {
+				return i + 1;
+			}
+			depth--;
+		}
+		i++;
+	}
+	return -1;
+}
+
+/**
+ * Returns the offset after the quote that closes a string literal whose body starts at `offset`.
+ * An unterminated string ends after the line.
+ */
+export function scanString(text: string, offset: number, quote: string): number {
+	let i = offset;
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (ch === '\\') {
+			i += 2;
+			continue;
+		}
+		if (ch === quote || ch === '\n') {
+			return i + 1;
+		}
+		i++;
+	}
+	return i;
+}
+
+/**
+ * Returns the offset after the backtick that closes a template literal whose body starts at
+ * `offset`, or -1 if the literal is not terminated.
+ */
+export function scanTemplate(text: string, offset: number): number {
+	let i = offset;
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (ch === '\\') {
+			i += 2;
+			continue;
+		}
+		if (ch === '`') {
+			return i + 1;
+		}
+		if (ch === '$' && text.charAt(i + 1) === '{') {
+			i = scanExpression(text, i + 2);
+			if (i === -1) {
+				return -1;
+			}
+			continue;
+		}
+		i++;
+	}
+	return -1;
+}
@@ -0,0 +1,481 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cssService from 'vscode-css-languageservice';
+import { findInterpolations } from './templateInterpolation';
+import type {
+	LanguageServiceDefaults,
+	ThemeTokenProvider,
+	ThemeTokenTree,
+	ThemeTokenValue
+} from './monaco.contribution';
+
+type ThemeTokenKind = 'color' | 'size' | 'other';
+
+interface ThemeToken {
+	/** e.g. `['colors', 'primary']` */
+	path: string[];
+	value: string;
+	kind: ThemeTokenKind;
+	color?: cssService.Color;
+}
+
+interface TokenReference {
+	token: ThemeToken;
+	start: number;
+	end: number;
+}
+
+/**
+ * The parts of a model that hold styles, e.g. the tagged templates of a JavaScript model.
+ */
+export interface StyleRange {
+	start: number;
+	end: number;
+}
+
+// `theme.colors.primary`, also as the end of `props.theme.colors.primary`, or `var(--colors-primary)`
+const REFERENCE = /\btheme((?:\.[\w$]+|\[\d+\])+)|\bvar\(\s*(--[\w-]+)\s*\)/g;
+const COLOR_PROPERTY = /color|background|border|outline|fill|stroke|shadow|caret/i;
+const SIZE_PROPERTY = /margin|padding|gap|width|height|top|right|bottom|left|inset|radius|size|spacing|indent|basis|border|outline|shadow/i;
+
+/**
+ * Whether `text` is a reference to a theme token, e.g. the text of a token's document color.
+ */
+export function isThemeTokenReference(text: string): boolean {
+	REFERENCE.lastIndex = 0;
+	const match = REFERENCE.exec(text);
+	return !!match && match.index === 0 && match[0].length === text.length;
+}
+
+/**
+ * Completions, hovers and document colors for the design tokens of `LanguageServiceDefaults.themeTokenProvider`.
+ * Tokens are referenced as `${theme.colors.primary}` or as `var(--colors-primary)`.
+ */
+export class ThemeTokenService {
+	private _provider: ThemeTokenProvider;
+	private _tokens: Promise<ThemeToken[]>;
+
+	/**
+	 * @param _getStyleRanges the parts of a model that hold styles, all of it if omitted
+	 */
+	constructor(
+		private _defaults: LanguageServiceDefaults,
+		private _getStyleRanges?: (text: string) => StyleRange[]
+	) {}
+
+	public async doComplete(
+		document: cssService.TextDocument,
+		position: cssService.Position
+	): Promise<cssService.CompletionItem[]> {
+		const text = document.getText();
+		const offset = document.offsetAt(position);
+		if (!isInRanges(this._getRanges(text), offset)) {
+			return [];
+		}
+		const tokens = await this._getTokens();
+		if (!tokens.length) {
+			return [];
+		}
+		const before = text.substring(0, offset);
+
+		const member = /\btheme((?:\.[\w$]+|\[\d+\])*)\.([\w$]*)$/.exec(before);
+		if (member) {
+			const dot = offset - member[2].length - 1;
+			return getMemberCompletions(tokens, parsePath(member[1]), {
+				start: document.positionAt(dot),
+				end: position
+			});
+		}
+
+		const customProperty = /\bvar\(\s*(--[\w-]*)$/.exec(before);
+		if (customProperty) {
+			const range = {
+				start: document.positionAt(offset - customProperty[1].length),
+				end: position
+			};
+			return tokens.map((token) => toCompletionItem(token, toCustomProperty(token), range));
+		}
+
+		const property = getPropertyBefore(before);
+		if (!property) {
+			return [];
+		}
+		const word = /[\w-]*$/.exec(before)[0];
+		const range = { start: document.positionAt(offset - word.length), end: position };
+		const reference = this._defaults.themeTokenProvider.reference || 'theme';
+		return tokens
+			.filter((token) => isRelevant(token, property))
+			.map((token) => {
+				const item =
+					reference === 'customProperty'
+						? toCompletionItem(token, toCustomProperty(token), range)
+						: toCompletionItem(token, toThemeMember(token), range);
+				item.textEdit.newText =
+					reference === 'customProperty' ? `var(${item.label})` : `\${${item.label}}`;
+				return item;
+			});
+	}
+
+	public async doHover(
+		document: cssService.TextDocument,
+		position: cssService.Position
+	): Promise<cssService.Hover | null> {
+		const offset = document.offsetAt(position);
+		const references = await this._findReferences(document.getText());
+		for (const reference of references) {
+			if (reference.start <= offset && offset <= reference.end) {
+				return {
+					contents: { kind: 'markdown', value: toMarkdown(reference.token, this._rootFontSize) },
+					range: {
+						start: document.positionAt(reference.start),
+						end: document.positionAt(reference.end)
+					}
+				};
+			}
+		}
+		return null;
+	}
+
+	public async findDocumentColors(
+		document: cssService.TextDocument
+	): Promise<cssService.ColorInformation[]> {
+		const references = await this._findReferences(document.getText());
+		const result: cssService.ColorInformation[] = [];
+		for (const reference of references) {
+			if (reference.token.color) {
+				result.push({
+					color: reference.token.color,
+					range: {
+						start: document.positionAt(reference.start),
+						end: document.positionAt(reference.end)
+					}
+				});
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Returns the values of the token references that end inside `range`.
+	 */
+	public async findInlayHints(
+		document: cssService.TextDocument,
+		range: cssService.Range
+	): Promise<{ position: cssService.Position; text: string }[]> {
+		const start = document.offsetAt(range.start);
+		const end = document.offsetAt(range.end);
+		const references = await this._findReferences(document.getText());
+		return references
+			.filter((reference) => start <= reference.end && reference.end <= end)
+			.map((reference) => {
+				const pixels = toPixels(reference.token, this._rootFontSize);
+				return {
+					position: document.positionAt(reference.end),
+					text: '= ' + reference.token.value + (pixels !== undefined ? ` (${pixels}px)` : '')
+				};
+			});
+	}
+
+	private get _rootFontSize(): number {
+		const inlayHints = this._defaults.options.inlayHints;
+		return (inlayHints && inlayHints.rootFontSize) || 16;
+	}
+
+	private _getTokens(): Promise<ThemeToken[]> {
+		const provider = this._defaults.themeTokenProvider;
+		if (!provider) {
+			return Promise.resolve([]);
+		}
+		if (provider !== this._provider) {
+			this._provider = provider;
+			// a provider that throws, even before it returns a promise, has no tokens
+			this._tokens = new Promise<ThemeTokenTree>((resolve) =>
+				resolve(typeof provider.tokens === 'function' ? provider.tokens() : provider.tokens)
+			).then(
+				(tree) => flattenTokens(tree, [], []),
+				(err) => {
+					console.error(err);
+					return [];
+				}
+			);
+		}
+		return this._tokens;
+	}
+
+	private async _findReferences(text: string): Promise<TokenReference[]> {
+		const tokens = await this._getTokens();
+		if (!tokens.length) {
+			return [];
+		}
+		const byKey: { [key: string]: ThemeToken } = Object.create(null);
+		for (const token of tokens) {
+			byKey[token.path.join('.')] = token;
+			byKey[toCustomProperty(token)] = token;
+		}
+		const ranges = this._getRanges(text);
+		const result: TokenReference[] = [];
+		REFERENCE.lastIndex = 0;
+		let match: RegExpExecArray;
+		while ((match = REFERENCE.exec(text))) {
+			const token = byKey[match[1] ? parsePath(match[1]).join('.') : match[2]];
+			if (token && isInRanges(ranges, match.index)) {
+				result.push({ token, start: match.index, end: match.index + match[0].length });
+			}
+		}
+		return result;
+	}
+
+	private _getRanges(text: string): StyleRange[] | undefined {
+		return this._getStyleRanges ? this._getStyleRanges(text) : undefined;
+	}
+}
+
+function isInRanges(ranges: StyleRange[] | undefined, offset: number): boolean {
+	return !ranges || ranges.some((range) => range.start <= offset && offset <= range.end);
+}
+
+function flattenTokens(
+	value: ThemeTokenValue | ThemeTokenTree,
+	path: string[],
+	result: ThemeToken[]
+): ThemeToken[] {
+	if (typeof value === 'string' || typeof value === 'number') {
+		const text = String(value).trim();
+		const color = parseColor(text);
+		const kind: ThemeTokenKind = color ? 'color' : isSize(text) ? 'size' : 'other';
+		result.push({ path, value: text, kind, color });
+	} else if (value && typeof value === 'object') {
+		for (const key of Object.keys(value)) {
+			flattenTokens((value as ThemeTokenTree)[key], path.concat(key), result);
+		}
+	}
+	return result;
+}
+
+/**
+ * `.colors.primary` or `.space[2]` into `['colors', 'primary']` or `['space', '2']`.
+ */
+function parsePath(text: string): string[] {
+	return text
+		.replace(/\[(\d+)\]/g, '.$1')
+		.split('.')
+		.filter((key) => !!key);
+}
+
+function toThemeMember(token: ThemeToken): string {
+	return 'theme' + token.path.map((key) => (/^\d+$/.test(key) ? `[${key}]` : `.${key}`)).join('');
+}
+
+function toCustomProperty(token: ThemeToken): string {
+	return '--' + token.path.join('-');
+}
+
+/**
+ * The keys below `parent`, inserted in place of the `.` and the partial key in `range`.
+ */
+function getMemberCompletions(
+	tokens: ThemeToken[],
+	parent: string[],
+	range: cssService.Range
+): cssService.CompletionItem[] {
+	const result: cssService.CompletionItem[] = [];
+	const seen: { [key: string]: boolean } = Object.create(null);
+	for (const token of tokens) {
+		if (
+			token.path.length <= parent.length ||
+			parent.some((key, index) => token.path[index] !== key)
+		) {
+			continue;
+		}
+		const key = token.path[parent.length];
+		if (seen[key]) {
+			continue;
+		}
+		seen[key] = true;
+		const member = /^\d+$/.test(key) ? `[${key}]` : `.${key}`;
+		if (token.path.length === parent.length + 1) {
+			const item = toCompletionItem(token, key, range);
+			item.textEdit.newText = member;
+			item.filterText = '.' + key;
+			result.push(item);
+		} else {
+			result.push({
+				label: key,
+				kind: cssService.CompletionItemKind.Module,
+				filterText: '.' + key,
+				textEdit: { range, newText: member }
+			});
+		}
+	}
+	return result;
+}
+
+function toCompletionItem(
+	token: ThemeToken,
+	label: string,
+	range: cssService.Range
+): cssService.CompletionItem {
+	return {
+		label,
+		kind:
+			token.kind === 'color'
+				? cssService.CompletionItemKind.Color
+				: cssService.CompletionItemKind.Constant,
+		detail: token.value,
+		// a color item shows the color of its documentation as a swatch
+		documentation: token.kind === 'color' ? token.value : undefined,
+		sortText: ' ' + label,
+		textEdit: { range, newText: label }
+	};
+}
+
+/**
+ * The property of the declaration whose value ends `text`, or `undefined` if `text` doesn't end
+ * in a declaration value.
+ */
+function getPropertyBefore(text: string): string | undefined {
+	const interpolations = findInterpolations(text);
+	const lastInterpolationEnd = interpolations.length
+		? interpolations[interpolations.length - 1].end
+		: 0;
+	if (text.lastIndexOf('${') >= lastInterpolationEnd) {
+		// inside an unfinished `${…}` expression
+		return undefined;
+	}
+	let masked = text;
+	for (let i = interpolations.length - 1; i >= 0; i--) {
+		const { start, end } = interpolations[i];
+		masked = masked.substring(0, start) + repeat(' ', end - start) + masked.substring(end);
+	}
+	const match = /([\w-]+)\s*:\s*['"]?[^;{}:'"]*$/.exec(masked);
+	return match ? match[1] : undefined;
+}
+
+function isRelevant(token: ThemeToken, property: string): boolean {
+	switch (token.kind) {
+		case 'color':
+			return COLOR_PROPERTY.test(property);
+		case 'size':
+			return SIZE_PROPERTY.test(property);
+		default:
+			return false;
+	}
+}
+
+function toMarkdown(token: ThemeToken, rootFontSize: number): string {
+	const lines = [`**${toThemeMember(token)}** \`${toCustomProperty(token)}\``, ''];
+	if (token.color) {
+		lines.push(`![${token.value}](${toSwatch(token.color)}) \`${token.value}\``);
+	} else {
+		const pixels = toPixels(token, rootFontSize);
+		lines.push(pixels !== undefined ? `\`${token.value}\` (${pixels}px)` : `\`${token.value}\``);
+	}
+	return lines.join('\n');
+}
+
+function toSwatch(color: cssService.Color): string {
+	const hex = [color.red, color.green, color.blue]
+		.map((channel) => ('0' + Math.round(channel * 255).toString(16)).slice(-2))
+		.join('');
+	const svg =
+		'<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12">' +
+		`<rect width="12" height="12" fill="#${hex}" fill-opacity="${color.alpha}" stroke="#888"/></svg>`;
+	return 'data:image/svg+xml,' + encodeURIComponent(svg);
+}
+
+function isSize(value: string): boolean {
+	return /^-?(\d+\.?\d*|\.\d+)(px|rem|em|%|vh|vw|vmin|vmax|ch|ex|pt)?$/.test(value);
+}
+
+/**
+ * Converts a unitless, `rem` or `em` size token into pixels, `undefined` if its value is
+ * already in pixels or isn't a length.
+ */
+function toPixels(token: ThemeToken, rootFontSize: number): number | undefined {
+	if (token.kind !== 'size') {
+		return undefined;
+	}
+	const match = /^(-?(?:\d+\.?\d*|\.\d+))(px|rem|em)?$/.exec(token.value);
+	if (!match || match[2] === 'px') {
+		return undefined;
+	}
+	const size = parseFloat(match[1]);
+	return match[2] ? size * rootFontSize : size;
+}
+
+function parseColor(value: string): cssService.Color | undefined {
+	const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(value);
+	if (hex) {
+		let digits = hex[1];
+		if (digits.length <= 4) {
+			digits = digits.replace(/./g, '$&$&');
+		}
+		const channel = (index: number) => parseInt(digits.substr(index * 2, 2), 16) / 255;
+		return {
+			red: channel(0),
+			green: channel(1),
+			blue: channel(2),
+			alpha: digits.length === 8 ? channel(3) : 1
+		};
+	}
+	const functional = /^(rgba?|hsla?)\(\s*([^)]*)\)$/i.exec(value);
+	if (!functional) {
+		return undefined;
+	}
+	const args = functional[2].split(/\s*[,/]\s*|\s+/);
+	if (args.length < 3 || args.length > 4) {
+		return undefined;
+	}
+	const number = (arg: string, scale: number) =>
+		/%$/.test(arg) ? parseFloat(arg) / 100 : parseFloat(arg) / scale;
+	const alpha = args.length === 4 ? number(args[3], 1) : 1;
+	let color: cssService.Color;
+	if (functional[1].toLowerCase().indexOf('rgb') === 0) {
+		color = {
+			red: number(args[0], 255),
+			green: number(args[1], 255),
+			blue: number(args[2], 255),
+			alpha
+		};
+	} else {
+		color = hslToColor(parseFloat(args[0]), number(args[1], 100), number(args[2], 100), alpha);
+	}
+	const channels = [color.red, color.green, color.blue, color.alpha];
+	return channels.every((channel) => !isNaN(channel)) ? color : undefined;
+}
+
+function hslToColor(
+	hue: number,
+	saturation: number,
+	lightness: number,
+	alpha: number
+): cssService.Color {
+	const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+	const h = (((hue % 360) + 360) % 360) / 60;
+	const x = chroma * (1 - Math.abs((h % 2) - 1));
+	const m = lightness - chroma / 2;
+	const [red, green, blue] =
+		h < 1
+			? [chroma, x, 0]
+			: h < 2
+			? [x, chroma, 0]
+			: h < 3
+			? [0, chroma, x]
+			: h < 4
+			? [0, x, chroma]
+			: h < 5
+			? [x, 0, chroma]
+			: [chroma, 0, x];
+	return { red: red + m, green: green + m, blue: blue + m, alpha };
+}
+
+function repeat(value: string, count: number): string {
+	let result = '';
+	for (let i = 0; i < count; i++) {
+		result += value;
+	}
+	return result;
+}
@@ -0,0 +1,167 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cssService from 'vscode-css-languageservice';
+import { MappedDocument } from './documentMapping';
+import { scanString } from './templateInterpolation';
+import type { CSSDialect } from './monaco.contribution';
+
+export interface VariableOccurrence {
+	/** e.g. `--brand`, `$spacing` or `@spacing` */
+	name: string;
+	/** offsets in the generated document */
+	start: number;
+	end: number;
+	/** the range in the user document */
+	range: cssService.Range;
+	declaration: boolean;
+}
+
+/**
+ * Finds the custom properties, and the SCSS or LESS variables, of the documents of a worker,
+ * so that they can be followed from one model to another. The occurrences of a document are
+ * collected once per document version.
+ */
+export class VariableIndex {
+	private _occurrences = new WeakMap<MappedDocument, VariableOccurrence[]>();
+
+	constructor(private _dialect: CSSDialect) {}
+
+	public getOccurrences(document: MappedDocument): VariableOccurrence[] {
+		let occurrences = this._occurrences.get(document);
+		if (!occurrences) {
+			occurrences = [];
+			for (const occurrence of findVariables(document.document.getText(), this._dialect)) {
+				const range = document.toSourceRange(
+					{
+						start: document.document.positionAt(occurrence.start),
+						end: document.document.positionAt(occurrence.end)
+					},
+					false
+				);
+				if (range) {
+					occurrences.push({ ...occurrence, range });
+				}
+			}
+			this._occurrences.set(document, occurrences);
+		}
+		return occurrences;
+	}
+
+	/**
+	 * Returns the name of the variable at `position` of the user document, if one of `documents` declares it.
+	 */
+	public getVariableAt(
+		document: MappedDocument,
+		position: cssService.Position,
+		documents: MappedDocument[]
+	): string | undefined {
+		const generatedPosition = document.toGeneratedPosition(position);
+		if (!generatedPosition) {
+			return undefined;
+		}
+		const offset = document.document.offsetAt(generatedPosition);
+		for (const occurrence of this.getOccurrences(document)) {
+			if (occurrence.start <= offset && offset <= occurrence.end) {
+				const name = occurrence.name;
+				const isDeclared = documents.some((other) =>
+					this.getOccurrences(other).some(
+						(candidate) => candidate.declaration && candidate.name === name
+					)
+				);
+				return isDeclared ? name : undefined;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Returns the occurrences of `name` in `documents`, in document order.
+	 */
+	public findOccurrences(
+		name: string,
+		documents: MappedDocument[]
+	): { document: MappedDocument; occurrence: VariableOccurrence }[] {
+		const result: { document: MappedDocument; occurrence: VariableOccurrence }[] = [];
+		for (const document of documents) {
+			for (const occurrence of this.getOccurrences(document)) {
+				if (occurrence.name === name) {
+					result.push({ document, occurrence });
+				}
+			}
+		}
+		return result;
+	}
+}
+
+/**
+ * Scans a style sheet for variable names, skipping comments, strings and `url(…)`.
+ * A name followed by `:` at the start of a statement is a declaration.
+ */
+function findVariables(
+	text: string,
+	dialect: CSSDialect
+): { name: string; start: number; end: number; declaration: boolean }[] {
+	const result: { name: string; start: number; end: number; declaration: boolean }[] = [];
+	const prefix = dialect === 'scss' ? '$' : dialect === 'less' ? '@' : undefined;
+	let i = 0;
+	while (i < text.length) {
+		const ch = text.charAt(i);
+		if (ch === '/' && text.charAt(i + 1) === '*') {
+			const end = text.indexOf('*/', i + 2);
+			i = end === -1 ? text.length : end + 2;
+			continue;
+		}
+		if (ch === '/' && text.charAt(i + 1) === '/' && dialect !== 'css') {
+			const end = text.indexOf('\n', i);
+			i = end === -1 ? text.length : end;
+			continue;
+		}
+		if (ch === '"' || ch === "'") {
+			i = scanString(text, i + 1, ch);
+			continue;
+		}
+		if (/^url\(/i.test(text.substr(i, 4)) && !isNameChar(text.charAt(i - 1))) {
+			const end = text.indexOf(')', i);
+			i = end === -1 ? text.length : end + 1;
+			continue;
+		}
+		const isCustomProperty = ch === '-' && text.charAt(i + 1) === '-';
+		if ((isCustomProperty || ch === prefix) && !isNameChar(text.charAt(i - 1))) {
+			const match = /^[\w-]+/.exec(text.substring(isCustomProperty ? i + 2 : i + 1));
+			if (match) {
+				const name = (isCustomProperty ? '--' : ch) + match[0];
+				const end = i + name.length;
+				// placeholders of `${…}` expressions and computed keys
+				if (name.indexOf('--__') !== 0) {
+					result.push({ name, start: i, end, declaration: isDeclaration(text, i, end) });
+				}
+				i = end;
+				continue;
+			}
+		}
+		i++;
+	}
+	return result;
+}
+
+function isNameChar(ch: string): boolean {
+	return /[\w-]/.test(ch);
+}
+
+function isDeclaration(text: string, start: number, end: number): boolean {
+	let next = end;
+	while (/\s/.test(text.charAt(next))) {
+		next++;
+	}
+	if (text.charAt(next) !== ':') {
+		return false;
+	}
+	let previous = start - 1;
+	while (previous >= 0 && /\s/.test(text.charAt(previous))) {
+		previous--;
+	}
+	return previous < 0 || '{;}'.indexOf(text.charAt(previous)) !== -1;
+}
@@ -0,0 +1,127 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IEditorInjection, LanguageServiceDefaults, StyleSyntax } from './monaco.contribution';
+import type { CSSInJSWorker, ICreateData } from './cssWorker';
+import { Uri, IDisposable, editor, worker } from './fillers/monaco-editor-core';
+
+const STOP_WHEN_IDLE_FOR = 2 * 60 * 1000; // 2min
+
+export class WorkerManager {
+	private _defaults: LanguageServiceDefaults;
+	private _editor: IEditorInjection;
+	private _syntax: StyleSyntax;
+	private _idleCheckInterval: number;
+	private _lastUsedTime: number;
+	private _configChangeListener: IDisposable;
+	private _modelDisposeListener: IDisposable;
+	// kept in sync with the worker, so that it finds the variables of every model it served
+	private _resources: { [uri: string]: Uri } = Object.create(null);
+
+	private _worker: editor.MonacoWebWorker<CSSInJSWorker>;
+	private _client: Promise<CSSInJSWorker>;
+
+	constructor(defaults: LanguageServiceDefaults, editor: IEditorInjection, syntax: StyleSyntax) {
+		this._defaults = defaults;
+		this._editor = editor;
+		this._syntax = syntax;
+		this._worker = null;
+		this._idleCheckInterval = window.setInterval(() => this._checkIfIdle(), 30 * 1000);
+		this._lastUsedTime = 0;
+		this._configChangeListener = this._defaults.onDidChange(() => this._stopWorker());
+		this._modelDisposeListener = this._editor.onWillDisposeModel((model) => {
+			const uri = model.uri.toString();
+			delete this._resources[uri];
+			if (this._client) {
+				// a worker that failed to start or was stopped has nothing to release
+				this._client.then((client) => client.releaseDocument(uri)).then(undefined, () => {});
+			}
+		});
+	}
+
+	private _stopWorker(): void {
+		if (this._worker) {
+			this._worker.dispose();
+			this._worker = null;
+		}
+		this._client = null;
+	}
+
+	dispose(): void {
+		clearInterval(this._idleCheckInterval);
+		this._configChangeListener.dispose();
+		this._modelDisposeListener.dispose();
+		this._stopWorker();
+	}
+
+	private _checkIfIdle(): void {
+		if (!this._worker) {
+			return;
+		}
+		let timePassedSinceLastUsed = Date.now() - this._lastUsedTime;
+		if (timePassedSinceLastUsed > STOP_WHEN_IDLE_FOR) {
+			this._stopWorker();
+		}
+	}
+
+	private _getClient(): Promise<CSSInJSWorker> {
+		this._lastUsedTime = Date.now();
+
+		if (!this._client) {
+			const createData: ICreateData = {
+				languageId: this._defaults.languageId,
+				options: this._defaults.options,
+				syntax: this._syntax,
+				dialect: this._defaults.dialect,
+				libraryDocuments: this._defaults.libraryDocuments
+			};
+			this._worker = this._editor.createWebWorker<CSSInJSWorker>({
+				// module that exports the create() method and returns a `CSSInJSWorker` instance
+				moduleId: 'vs/language/css/cssWorker',
+
+				label: this._defaults.languageId,
+
+				// passed in to the create() method
+				createData
+			});
+
+			this._client = <Promise<CSSInJSWorker>>(<any>this._worker.getProxy());
+		}
+
+		return this._client;
+	}
+
+	getLanguageServiceWorker(...resources: Uri[]): Promise<CSSInJSWorker> {
+		for (const resource of resources) {
+			this._resources[resource.toString()] = resource;
+		}
+		resources = Object.keys(this._resources).map((uri) => this._resources[uri]);
+		let _client: CSSInJSWorker;
+		return this._getClient()
+			.then((client) => {
+				_client = client;
+			})
+			.then((_) => {
+				return this._worker.withSyncedResources(resources);
+			})
+			.then((_) => _client);
+	}
+}
+
+/**
+ * Lets a `CSSInJSWorker` created on the main thread read the editor models directly,
+ * in place of the mirror models a web worker is synced with.
+ */
+export function createMainThreadContext(editor: IEditorInjection): worker.IWorkerContext {
+	return {
+		host: undefined,
+		getMirrorModels: () =>
+			editor.getModels().map((model) => ({
+				uri: model.uri,
+				version: model.getVersionId(),
+				getValue: () => model.getValue()
+			}))
+	};
+}
@@ -0,0 +1,270 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert');
+const loadAmd = require('../scripts/amd');
+const { PROVIDER_KINDS, createEditor, createLanguages, createToken } = require('./fakes');
+
+const {
+	CSSInJSWorker,
+	cssInJsDefaults,
+	createMainThreadWorker,
+	setupCssInJsLang,
+	setupEmbeddedCssInJs,
+	setupObjectStyles,
+	setupValidation
+} = loadAmd('vs/language/css/monaco.contribution');
+const cssInJsLang = loadAmd('vs/language/css/cssInJsLang');
+
+// the provider each flag of `ModeConfiguration` registers
+const FLAGS = {
+	completionItems: 'CompletionItem',
+	hovers: 'Hover',
+	documentHighlights: 'DocumentHighlight',
+	definitions: 'Definition',
+	references: 'Reference',
+	documentSymbols: 'DocumentSymbol',
+	rename: 'Rename',
+	colors: 'Color',
+	foldingRanges: 'FoldingRange',
+	selectionRanges: 'SelectionRange',
+	codeActions: 'CodeAction',
+	documentFormattingEdits: 'DocumentFormattingEdit',
+	documentRangeFormattingEdits: 'DocumentRangeFormattingEdit',
+	inlayHints: 'InlayHints',
+	semanticTokens: 'DocumentSemanticTokens',
+	signatureHelp: 'SignatureHelp'
+};
+
+function setup(languagesOptions) {
+	const editor = createEditor();
+	const languages = createLanguages(languagesOptions);
+	const defaults = cssInJsDefaults(editor);
+	const worker = createMainThreadWorker(editor, defaults);
+	return { editor, languages, defaults, worker };
+}
+
+function registeredKinds(languages, languageId) {
+	return languages.providers
+		.filter((entry) => !languageId || entry.languageId === languageId)
+		.map((entry) => entry.kind)
+		.sort();
+}
+
+describe('setupCssInJsLang', () => {
+	it('registers the language and every provider by default', () => {
+		const { editor, languages, defaults, worker } = setup();
+		setupCssInJsLang(worker, languages, editor, defaults);
+		assert.deepStrictEqual(languages.registered, ['cssInJs']);
+		assert.deepStrictEqual(registeredKinds(languages, 'cssInJs'), PROVIDER_KINDS.slice().sort());
+	});
+
+	for (const flag of Object.keys(FLAGS)) {
+		it(`leaves out the ${FLAGS[flag]} provider when ${flag} is false`, () => {
+			const { editor, languages, defaults, worker } = setup();
+			defaults.setModeConfiguration({ ...defaults.modeConfiguration, [flag]: false });
+			setupCssInJsLang(worker, languages, editor, defaults);
+			assert.deepStrictEqual(
+				registeredKinds(languages),
+				PROVIDER_KINDS.filter((kind) => kind !== FLAGS[flag]).sort()
+			);
+		});
+	}
+
+	it('removes the providers when disposed', () => {
+		const { editor, languages, defaults, worker } = setup();
+		const disposable = setupCssInJsLang(worker, languages, editor, defaults);
+		disposable.dispose();
+		assert.strictEqual(languages.providers.length, 0);
+		defaults.setModeConfiguration({ ...defaults.modeConfiguration, hovers: false });
+		assert.strictEqual(languages.providers.length, 0);
+	});
+
+	it('registers the providers again when the mode configuration changes', () => {
+		const { editor, languages, defaults, worker } = setup();
+		setupCssInJsLang(worker, languages, editor, defaults);
+		const count = languages.providers.length;
+		defaults.setModeConfiguration({ ...defaults.modeConfiguration, hovers: false });
+		assert.strictEqual(languages.get('Hover').length, 0);
+		assert.strictEqual(languages.get('CompletionItem').length, 1);
+		defaults.setModeConfiguration({ ...defaults.modeConfiguration, hovers: true });
+		assert.strictEqual(languages.get('Hover').length, 1);
+		assert.strictEqual(languages.providers.length, count);
+	});
+
+	it('skips inlay hints when monaco can not show them', () => {
+		const { editor, languages, defaults, worker } = setup({ inlayHints: false });
+		setupCssInJsLang(worker, languages, editor, defaults);
+		assert.strictEqual(languages.get('InlayHints').length, 0);
+		assert.strictEqual(languages.providers.length, PROVIDER_KINDS.length - 1);
+	});
+
+	it('registers inlay hints when monaco can show them', () => {
+		const { editor, languages, defaults, worker } = setup();
+		setupCssInJsLang(worker, languages, editor, defaults);
+		assert.strictEqual(languages.get('InlayHints').length, 1);
+		defaults.setModeConfiguration({ ...defaults.modeConfiguration, inlayHints: false });
+		assert.strictEqual(languages.get('InlayHints').length, 0);
+	});
+
+	it('uses the language id and the grammar of the dialect', () => {
+		const editor = createEditor();
+		const languages = createLanguages();
+		const grammars = [];
+		languages.setMonarchTokensProvider = (languageId, grammar) => {
+			grammars.push([languageId, grammar]);
+			return { dispose() {} };
+		};
+		const defaults = cssInJsDefaults(editor, 'less');
+		setupCssInJsLang(createMainThreadWorker(editor, defaults), languages, editor, defaults);
+		assert.deepStrictEqual(languages.registered, ['cssInJsLess']);
+		assert.strictEqual(languages.get('Hover', 'cssInJsLess').length, 1);
+		assert.deepStrictEqual(grammars, [['cssInJsLess', cssInJsLang.lessLanguage]]);
+	});
+});
+
+describe('setupEmbeddedCssInJs', () => {
+	it('registers completion, hovers and colors for each host language', () => {
+		const { editor, languages, defaults } = setup();
+		const worker = createMainThreadWorker(editor, defaults, 'embedded');
+		const disposable = setupEmbeddedCssInJs(worker, languages, editor, defaults);
+		for (const languageId of ['javascript', 'typescript']) {
+			assert.deepStrictEqual(registeredKinds(languages, languageId), [
+				'Color',
+				'CompletionItem',
+				'Hover'
+			]);
+		}
+		disposable.dispose();
+		assert.strictEqual(languages.providers.length, 0);
+	});
+
+	it('follows the mode configuration', () => {
+		const { editor, languages, defaults } = setup();
+		const worker = createMainThreadWorker(editor, defaults, 'embedded');
+		setupEmbeddedCssInJs(worker, languages, editor, defaults, ['javascript']);
+		defaults.setModeConfiguration({ ...defaults.modeConfiguration, colors: false });
+		assert.deepStrictEqual(registeredKinds(languages), ['CompletionItem', 'Hover']);
+	});
+});
+
+describe('setupObjectStyles', () => {
+	it('registers the object style language with completion, hovers and colors', () => {
+		const { editor, languages, defaults } = setup();
+		const worker = createMainThreadWorker(editor, defaults, 'object');
+		const disposable = setupObjectStyles(worker, languages, editor, defaults);
+		assert.deepStrictEqual(languages.registered, ['cssInJsObject']);
+		assert.deepStrictEqual(registeredKinds(languages, 'cssInJsObject'), [
+			'Color',
+			'CompletionItem',
+			'Hover'
+		]);
+		disposable.dispose();
+		assert.strictEqual(languages.providers.length, 0);
+	});
+
+	it('hovers the theme tokens anywhere in an object style model', async () => {
+		const { editor, languages, defaults } = setup();
+		defaults.setThemeTokenProvider({ tokens: { space: ['4px'] } });
+		const worker = createMainThreadWorker(editor, defaults, 'object');
+		setupObjectStyles(worker, languages, editor, defaults);
+		const model = editor.createModel('file:///a', 'cssInJsObject', '{ padding: theme.space[0] }');
+		const hover = await languages
+			.get('Hover', 'cssInJsObject')[0]
+			.provideHover(model, { lineNumber: 1, column: 14 }, createToken());
+		assert.match(hover.contents[0].value, /4px/);
+	});
+});
+
+describe('setupValidation', () => {
+	function flush() {
+		return new Promise((resolve) => setTimeout(resolve, 0));
+	}
+
+	it('marks the models of the language', async () => {
+		const { editor, defaults, worker } = setup();
+		const disposable = setupValidation(worker, editor, defaults);
+		editor.createModel('file:///a', 'cssInJs', 'colr: red;');
+		await flush();
+		assert.strictEqual(editor.markers.cssInJs['file:///a'].length, 1);
+		disposable.dispose();
+	});
+
+	it('serves the models of the editor to a worker created without a context', async () => {
+		const editor = createEditor();
+		const worker = new CSSInJSWorker();
+		setupCssInJsLang(worker, createLanguages(), editor);
+		const disposable = setupValidation(worker, { getModel: () => null }, editor);
+		editor.createModel('file:///a', 'cssInJs', 'colr: red;');
+		await flush();
+		assert.strictEqual(editor.markers.cssInJs['file:///a'].length, 1);
+		disposable.dispose();
+	});
+
+	it('accepts the editor before the injection, as earlier versions did', async () => {
+		const { editor, defaults, worker } = setup();
+		const codeEditor = { getModel: () => null };
+		const disposable = setupValidation(worker, codeEditor, editor, defaults);
+		editor.createModel('file:///a', 'cssInJs', 'colr: red;');
+		await flush();
+		assert.strictEqual(editor.markers.cssInJs['file:///a'].length, 1);
+		disposable.dispose();
+	});
+});
+
+describe('LanguageServiceDefaults', () => {
+	it('reaches a main thread worker when the options change', async () => {
+		const { editor, defaults, worker } = setup();
+		editor.createModel('file:///a', 'cssInJs', 'colr: red;');
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 1);
+		defaults.setOptions({ ...defaults.options, validate: false });
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 0);
+	});
+
+	it('no longer reaches a disposed main thread worker', async () => {
+		const { editor, defaults, worker } = setup();
+		editor.createModel('file:///a', 'cssInJs', 'colr: red;');
+		worker.dispose();
+		defaults.setOptions({ ...defaults.options, validate: false });
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 1);
+	});
+
+	it('reaches a main thread worker when the library documents change', async () => {
+		const { editor, defaults, worker } = setup();
+		editor.createModel('file:///a', 'cssInJs', 'color: var(--brand);');
+		const position = { line: 0, character: 13 };
+		assert.strictEqual(await worker.findDefinition('file:///a', position), null);
+		defaults.setLibraryDocuments({ 'file:///theme.css': ':root { --brand: red; }' });
+		const definition = await worker.findDefinition('file:///a', position);
+		assert.strictEqual(definition.uri, 'file:///theme.css');
+	});
+
+	it('registers and removes lint rules', async () => {
+		const { editor, defaults, worker } = setup();
+		editor.createModel('file:///a', 'cssInJs', 'color: red !important;');
+		const registration = defaults.registerLintRule(
+			{
+				id: 'no-important',
+				check(stylesheet, context) {
+					for (const declaration of stylesheet.declarations) {
+						if (declaration.important) {
+							context.report(declaration, 'Avoid !important');
+						}
+					}
+				}
+			},
+			'error'
+		);
+		const diagnostics = await worker.doValidation('file:///a');
+		assert.deepStrictEqual(
+			diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.severity]),
+			[['no-important', 1]]
+		);
+		registration.dispose();
+		assert.strictEqual(defaults.lintRules.length, 0);
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 0);
+	});
+});
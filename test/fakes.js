@@ -0,0 +1,306 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Stand-ins for the parts of monaco-editor the plugin is injected with, and in-memory models.
+// Positions and ranges follow monaco: line numbers and columns start at 1.
+
+class Uri {
+	constructor(value) {
+		this._value = value;
+	}
+	static parse(value) {
+		return new Uri(value);
+	}
+	toString() {
+		return this._value;
+	}
+}
+
+class Range {
+	constructor(startLineNumber, startColumn, endLineNumber, endColumn) {
+		this.startLineNumber = startLineNumber;
+		this.startColumn = startColumn;
+		this.endLineNumber = endLineNumber;
+		this.endColumn = endColumn;
+	}
+}
+
+class Emitter {
+	constructor() {
+		this._listeners = [];
+		this.event = (listener) => {
+			this._listeners.push(listener);
+			return {
+				dispose: () => {
+					this._listeners = this._listeners.filter((other) => other !== listener);
+				}
+			};
+		};
+	}
+	fire(event) {
+		this._listeners.slice().forEach((listener) => listener(event));
+	}
+}
+
+const MarkerSeverity = { Hint: 1, Info: 2, Warning: 4, Error: 8 };
+
+const CompletionItemKind = {};
+[
+	'Method',
+	'Function',
+	'Constructor',
+	'Field',
+	'Variable',
+	'Class',
+	'Struct',
+	'Interface',
+	'Module',
+	'Property',
+	'Event',
+	'Operator',
+	'Unit',
+	'Value',
+	'Constant',
+	'Enum',
+	'EnumMember',
+	'Keyword',
+	'Text',
+	'Color',
+	'File',
+	'Reference',
+	'Customcolor',
+	'Folder',
+	'TypeParameter',
+	'User',
+	'Issue',
+	'Snippet'
+].forEach((kind, index) => (CompletionItemKind[kind] = index));
+
+class Model {
+	constructor(uri, languageId, value) {
+		this.uri = Uri.parse(uri);
+		this._languageId = languageId;
+		this._value = value;
+		this._version = 1;
+		this._disposed = false;
+		this._onDidChangeContent = new Emitter();
+	}
+	getValue() {
+		return this._value;
+	}
+	/** replaces the text, as an edit would */
+	setValue(value) {
+		this._value = value;
+		this._version++;
+		this._onDidChangeContent.fire({});
+	}
+	getVersionId() {
+		return this._version;
+	}
+	getModeId() {
+		return this._languageId;
+	}
+	isDisposed() {
+		return this._disposed;
+	}
+	onDidChangeContent(listener) {
+		return this._onDidChangeContent.event(listener);
+	}
+	getOffsetAt(position) {
+		const lines = this._value.split('\n');
+		let offset = 0;
+		for (let i = 0; i < position.lineNumber - 1; i++) {
+			offset += lines[i].length + 1;
+		}
+		return offset + position.column - 1;
+	}
+	getValueInRange(range) {
+		return this._value.substring(
+			this.getOffsetAt({ lineNumber: range.startLineNumber, column: range.startColumn }),
+			this.getOffsetAt({ lineNumber: range.endLineNumber, column: range.endColumn })
+		);
+	}
+	getWordUntilPosition(position) {
+		const line = this._value.split('\n')[position.lineNumber - 1];
+		const word = /[\w-]*$/.exec(line.substring(0, position.column - 1))[0];
+		return {
+			word,
+			startColumn: position.column - word.length,
+			endColumn: position.column
+		};
+	}
+}
+
+/**
+ * The editor half of the injection. Models are created with `createModel`, markers end up in
+ * `markers`, keyed by owner and then by model uri.
+ */
+function createEditor() {
+	const models = [];
+	const onDidCreateModel = new Emitter();
+	const onWillDisposeModel = new Emitter();
+	const onDidChangeModelLanguage = new Emitter();
+	const markers = Object.create(null);
+
+	return {
+		markers,
+		createModel(uri, languageId, value) {
+			const model = new Model(uri, languageId, value);
+			models.push(model);
+			onDidCreateModel.fire(model);
+			return model;
+		},
+		disposeModel(model) {
+			onWillDisposeModel.fire(model);
+			models.splice(models.indexOf(model), 1);
+			model._disposed = true;
+		},
+		createWebWorker() {
+			throw new Error('no web workers in the tests');
+		},
+		setModelMarkers(model, owner, data) {
+			(markers[owner] = markers[owner] || Object.create(null))[model.uri.toString()] = data;
+		},
+		onDidCreateModel: onDidCreateModel.event,
+		onWillDisposeModel: onWillDisposeModel.event,
+		onDidChangeModelLanguage: onDidChangeModelLanguage.event,
+		getModels: () => models.slice(),
+		getModel: (uri) => models.filter((model) => model.uri.toString() === uri.toString())[0] || null,
+		severities: MarkerSeverity,
+		itemKinds: CompletionItemKind,
+		CompletionItemInsertTextRule: { KeepWhitespace: 1, InsertAsSnippet: 4 },
+		Uri,
+		Range,
+		Emitter
+	};
+}
+
+const PROVIDER_KINDS = [
+	'CompletionItem',
+	'Hover',
+	'SignatureHelp',
+	'DocumentHighlight',
+	'Definition',
+	'Reference',
+	'DocumentSymbol',
+	'Rename',
+	'Color',
+	'FoldingRange',
+	'SelectionRange',
+	'CodeAction',
+	'DocumentFormattingEdit',
+	'DocumentRangeFormattingEdit',
+	'InlayHints',
+	'DocumentSemanticTokens'
+];
+
+/**
+ * The languages half of the injection. The registered providers are in `providers`, as
+ * `{ kind, languageId, provider }`, until their registration is disposed.
+ */
+function createLanguages({ inlayHints = true } = {}) {
+	const languages = {
+		providers: [],
+		registered: [],
+		register: (language) => languages.registered.push(language.id),
+		setLanguageConfiguration: () => ({ dispose() {} }),
+		setMonarchTokensProvider: () => ({ dispose() {} }),
+		DocumentHighlightKind: { Text: 0, Read: 1, Write: 2 },
+		SymbolKind: {
+			File: 0,
+			Module: 1,
+			Namespace: 2,
+			Package: 3,
+			Class: 4,
+			Method: 5,
+			Property: 6,
+			Field: 7,
+			Constructor: 8,
+			Enum: 9,
+			Interface: 10,
+			Function: 11,
+			Variable: 12,
+			Constant: 13,
+			String: 14,
+			Number: 15,
+			Boolean: 16,
+			Array: 17
+		},
+		FoldingRangeKind: {
+			Comment: { value: 'comment' },
+			Imports: { value: 'imports' },
+			Region: { value: 'region' }
+		},
+		InlayHintKind: { Other: 0, Type: 1, Parameter: 2 },
+		/** the registered providers of `kind`, e.g. 'Hover' */
+		get(kind, languageId) {
+			return languages.providers
+				.filter((entry) => entry.kind === kind && (!languageId || entry.languageId === languageId))
+				.map((entry) => entry.provider);
+		}
+	};
+	for (const kind of PROVIDER_KINDS) {
+		if (kind === 'InlayHints' && !inlayHints) {
+			continue;
+		}
+		languages[`register${kind}Provider`] = (languageId, provider) => {
+			const entry = { kind, languageId, provider };
+			languages.providers.push(entry);
+			return {
+				dispose: () => {
+					languages.providers = languages.providers.filter((other) => other !== entry);
+				}
+			};
+		};
+	}
+	return languages;
+}
+
+/**
+ * A cancellation token, cancelled with `cancel()`.
+ */
+function createToken() {
+	const listeners = new Set();
+	return {
+		isCancellationRequested: false,
+		onCancellationRequested(listener) {
+			listeners.add(listener);
+			return { dispose: () => listeners.delete(listener) };
+		},
+		cancel() {
+			if (!this.isCancellationRequested) {
+				this.isCancellationRequested = true;
+				listeners.forEach((listener) => listener());
+			}
+		}
+	};
+}
+
+/**
+ * A worker context serving the given models, as the mirror models of a web worker.
+ * `texts` maps uris to the text of their model, versions start at 1.
+ */
+function createWorkerContext(texts) {
+	return {
+		host: undefined,
+		getMirrorModels: () =>
+			Object.keys(texts).map((uri) => ({
+				uri: Uri.parse(uri),
+				version: 1,
+				getValue: () => texts[uri]
+			}))
+	};
+}
+
+module.exports = {
+	PROVIDER_KINDS,
+	MarkerSeverity,
+	Range,
+	Uri,
+	createEditor,
+	createLanguages,
+	createToken,
+	createWorkerContext
+};
@@ -0,0 +1,849 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert');
+const loadAmd = require('../scripts/amd');
+const { MarkerSeverity, Range, createEditor, createLanguages, createToken } = require('./fakes');
+
+const languageFeatures = loadAmd('vs/language/css/languageFeatures');
+const { ThemeTokenService } = loadAmd('vs/language/css/themeTokens');
+const { cssInJsDefaults, createMainThreadWorker } = loadAmd('vs/language/css/monaco.contribution');
+
+// the same range as the language service and as monaco sees it
+const RANGE = { start: { line: 1, character: 2 }, end: { line: 1, character: 6 } };
+const MONACO_RANGE = new Range(2, 3, 2, 7);
+const POSITION = { lineNumber: 2, column: 4 };
+const WORKER_POSITION = { line: 1, character: 3 };
+
+const TEXT = 'color: red;\ncolr: blue;\n';
+
+/**
+ * A worker answering every request with `RANGE`. The arguments of each call are in `calls`,
+ * `onCall` runs while the request is in flight.
+ */
+function createFakeWorker(onCall = () => {}) {
+	const calls = Object.create(null);
+	const answer = (method, result) => (...args) => {
+		calls[method] = args;
+		onCall(method);
+		return Promise.resolve(result);
+	};
+	const worker = {
+		doComplete: answer('doComplete', {
+			isIncomplete: false,
+			items: [
+				{
+					label: 'color',
+					textEdit: { range: RANGE, newText: 'color' },
+					additionalTextEdits: [{ range: RANGE, newText: '' }]
+				}
+			]
+		}),
+		doHover: answer('doHover', { contents: 'color', range: RANGE }),
+		getSignatureHelp: answer('getSignatureHelp', {
+			signatures: [
+				{
+					label: 'minmax(min, max)',
+					documentation: { kind: 'markdown', value: 'A size range of a *grid track*.' },
+					parameters: [{ label: 'min' }, { label: 'max' }]
+				}
+			],
+			activeSignature: 0,
+			activeParameter: 1
+		}),
+		findDocumentHighlights: answer('findDocumentHighlights', [{ range: RANGE, kind: 3 }]),
+		findDefinition: answer('findDefinition', { uri: 'file:///a', range: RANGE }),
+		findReferences: answer('findReferences', [{ uri: 'file:///a', range: RANGE }]),
+		doRename: answer('doRename', { changes: { 'file:///a': [{ range: RANGE, newText: 'x' }] } }),
+		findDocumentSymbols: answer('findDocumentSymbols', [
+			{ name: '&:hover', kind: 5, range: RANGE, selectionRange: RANGE, children: [] }
+		]),
+		findDocumentColors: answer('findDocumentColors', [
+			{ color: { red: 1, green: 0, blue: 0, alpha: 1 }, range: RANGE }
+		]),
+		getColorPresentations: answer('getColorPresentations', [
+			{ label: 'red', textEdit: { range: RANGE, newText: 'red' } }
+		]),
+		getFoldingRanges: answer('getFoldingRanges', [{ startLine: 1, endLine: 3, kind: 'comment' }]),
+		getSelectionRanges: answer('getSelectionRanges', [
+			{ range: RANGE, parent: { range: { start: RANGE.start, end: { line: 2, character: 0 } } } }
+		]),
+		getInlayHints: answer('getInlayHints', [
+			{ position: { line: 1, character: 6 }, text: '= 24px' }
+		]),
+		getSemanticTokens: answer('getSemanticTokens', [
+			{ line: 0, character: 0, length: 5, tokenType: 0, tokenModifiers: 0 },
+			{ line: 1, character: 0, length: 4, tokenType: 0, tokenModifiers: 2 },
+			{ line: 1, character: 6, length: 4, tokenType: 1, tokenModifiers: 0 }
+		]),
+		doCodeActions: answer('doCodeActions', [
+			{
+				title: 'Rename to color',
+				command: '_css.applyCodeAction',
+				arguments: ['file:///a', 1, [{ range: RANGE, newText: 'color' }]]
+			}
+		]),
+		format: answer('format', [{ range: RANGE, newText: 'color' }]),
+		cancelRequest: answer('cancelRequest', undefined)
+	};
+	return { worker, calls };
+}
+
+function toAccessor(worker) {
+	return () => Promise.resolve(worker);
+}
+
+/**
+ * One case per adapter: how to create it, what to ask it, which worker method answers and what
+ * the answer looks like once converted for monaco.
+ */
+const ADAPTERS = [
+	{
+		name: 'CompletionAdapter',
+		method: 'doComplete',
+		create: (accessor, editor) => new languageFeatures.CompletionAdapter(accessor, editor),
+		provide: (adapter, model, token) =>
+			adapter.provideCompletionItems(model, POSITION, { triggerKind: 0 }, token),
+		check: (result, calls) => {
+			assert.deepStrictEqual(calls.doComplete[1], WORKER_POSITION);
+			assert.deepStrictEqual(result.suggestions[0].range, MONACO_RANGE);
+			assert.deepStrictEqual(result.suggestions[0].additionalTextEdits[0].range, MONACO_RANGE);
+		}
+	},
+	{
+		name: 'HoverAdapter',
+		method: 'doHover',
+		create: (accessor, editor) => new languageFeatures.HoverAdapter(accessor, editor),
+		provide: (adapter, model, token) => adapter.provideHover(model, POSITION, token),
+		check: (result, calls) => {
+			assert.deepStrictEqual(calls.doHover[1], WORKER_POSITION);
+			assert.deepStrictEqual(result.range, MONACO_RANGE);
+			assert.deepStrictEqual(result.contents, [{ value: 'color' }]);
+		}
+	},
+	{
+		name: 'SignatureHelpAdapter',
+		method: 'getSignatureHelp',
+		create: (accessor) => new languageFeatures.SignatureHelpAdapter(accessor),
+		provide: (adapter, model, token) =>
+			adapter.provideSignatureHelp(model, POSITION, token, { triggerKind: 2, isRetrigger: false }),
+		check: (result, calls) => {
+			assert.deepStrictEqual(calls.getSignatureHelp[1], WORKER_POSITION);
+			assert.deepStrictEqual(result.value, {
+				signatures: [
+					{
+						label: 'minmax(min, max)',
+						documentation: { value: 'A size range of a *grid track*.' },
+						parameters: [{ label: 'min' }, { label: 'max' }]
+					}
+				],
+				activeSignature: 0,
+				activeParameter: 1
+			});
+		}
+	},
+	{
+		name: 'DocumentHighlightAdapter',
+		method: 'findDocumentHighlights',
+		create: (accessor, editor, languages) =>
+			new languageFeatures.DocumentHighlightAdapter(accessor, languages, editor),
+		provide: (adapter, model, token) => adapter.provideDocumentHighlights(model, POSITION, token),
+		check: (result, calls, languages) => {
+			assert.deepStrictEqual(calls.findDocumentHighlights[1], WORKER_POSITION);
+			assert.deepStrictEqual(result, [
+				{ range: MONACO_RANGE, kind: languages.DocumentHighlightKind.Write }
+			]);
+		}
+	},
+	{
+		name: 'DefinitionAdapter',
+		method: 'findDefinition',
+		create: (accessor, editor) => new languageFeatures.DefinitionAdapter(accessor, editor),
+		provide: (adapter, model, token) => adapter.provideDefinition(model, POSITION, token),
+		check: (result, calls) => {
+			assert.deepStrictEqual(calls.findDefinition[1], WORKER_POSITION);
+			assert.strictEqual(result[0].uri.toString(), 'file:///a');
+			assert.deepStrictEqual(result[0].range, MONACO_RANGE);
+		}
+	},
+	{
+		name: 'ReferenceAdapter',
+		method: 'findReferences',
+		create: (accessor, editor) => new languageFeatures.ReferenceAdapter(accessor, editor),
+		provide: (adapter, model, token) =>
+			adapter.provideReferences(model, POSITION, { includeDeclaration: true }, token),
+		check: (result, calls) => {
+			assert.deepStrictEqual(calls.findReferences[1], WORKER_POSITION);
+			assert.deepStrictEqual(result[0].range, MONACO_RANGE);
+		}
+	},
+	{
+		name: 'RenameAdapter',
+		method: 'doRename',
+		create: (accessor, editor) => new languageFeatures.RenameAdapter(accessor, editor),
+		provide: (adapter, model, token) => adapter.provideRenameEdits(model, POSITION, 'x', token),
+		check: (result, calls) => {
+			assert.deepStrictEqual(calls.doRename[1], WORKER_POSITION);
+			assert.strictEqual(calls.doRename[2], 'x');
+			assert.deepStrictEqual(result.edits[0].edit, { range: MONACO_RANGE, text: 'x' });
+		}
+	},
+	{
+		name: 'DocumentSymbolAdapter',
+		method: 'findDocumentSymbols',
+		create: (accessor, editor, languages) =>
+			new languageFeatures.DocumentSymbolAdapter(accessor, languages, editor),
+		provide: (adapter, model, token) => adapter.provideDocumentSymbols(model, token),
+		check: (result, calls, languages) => {
+			assert.deepStrictEqual(result[0].range, MONACO_RANGE);
+			assert.deepStrictEqual(result[0].selectionRange, MONACO_RANGE);
+			assert.strictEqual(result[0].kind, languages.SymbolKind.Class);
+		}
+	},
+	{
+		name: 'DocumentColorAdapter',
+		method: 'findDocumentColors',
+		create: (accessor, editor) => new languageFeatures.DocumentColorAdapter(accessor, editor),
+		provide: (adapter, model, token) => adapter.provideDocumentColors(model, token),
+		check: (result) => {
+			assert.deepStrictEqual(result[0].range, MONACO_RANGE);
+		}
+	},
+	{
+		name: 'DocumentColorAdapter presentations',
+		method: 'getColorPresentations',
+		create: (accessor, editor) => new languageFeatures.DocumentColorAdapter(accessor, editor),
+		provide: (adapter, model, token) =>
+			adapter.provideColorPresentations(
+				model,
+				{ color: { red: 1, green: 0, blue: 0, alpha: 1 }, range: MONACO_RANGE },
+				token
+			),
+		check: (result, calls) => {
+			assert.deepStrictEqual(calls.getColorPresentations[2], RANGE);
+			assert.deepStrictEqual(result[0].textEdit, { range: MONACO_RANGE, text: 'red' });
+		}
+	},
+	{
+		name: 'FoldingRangeAdapter',
+		method: 'getFoldingRanges',
+		create: (accessor, editor, languages) =>
+			new languageFeatures.FoldingRangeAdapter(accessor, languages),
+		provide: (adapter, model, token) => adapter.provideFoldingRanges(model, {}, token),
+		check: (result, calls, languages) => {
+			assert.deepStrictEqual(result, [
+				{ start: 2, end: 4, kind: languages.FoldingRangeKind.Comment }
+			]);
+		}
+	},
+	{
+		name: 'SelectionRangeAdapter',
+		method: 'getSelectionRanges',
+		create: (accessor, editor) => new languageFeatures.SelectionRangeAdapter(accessor, editor),
+		provide: (adapter, model, token) => adapter.provideSelectionRanges(model, [POSITION], token),
+		check: (result, calls) => {
+			assert.deepStrictEqual(calls.getSelectionRanges[1], [WORKER_POSITION]);
+			assert.deepStrictEqual(
+				result[0].map((selection) => selection.range),
+				[MONACO_RANGE, new Range(2, 3, 3, 1)]
+			);
+		}
+	},
+	{
+		name: 'InlayHintsAdapter',
+		method: 'getInlayHints',
+		create: (accessor, editor, languages) =>
+			new languageFeatures.InlayHintsAdapter(accessor, languages),
+		provide: (adapter, model, token) => adapter.provideInlayHints(model, MONACO_RANGE, token),
+		check: (result, calls, languages) => {
+			assert.deepStrictEqual(calls.getInlayHints[1], RANGE);
+			assert.deepStrictEqual(result, [
+				{
+					text: '= 24px',
+					position: { lineNumber: 2, column: 7 },
+					kind: languages.InlayHintKind.Other,
+					whitespaceBefore: true
+				}
+			]);
+		}
+	},
+	{
+		name: 'DocumentSemanticTokensAdapter',
+		method: 'getSemanticTokens',
+		create: (accessor) => new languageFeatures.DocumentSemanticTokensAdapter(accessor),
+		provide: (adapter, model, token) => adapter.provideDocumentSemanticTokens(model, null, token),
+		check: (result) => {
+			assert.deepStrictEqual(Array.from(result.data), [
+				0,
+				0,
+				5,
+				0,
+				0,
+				1,
+				0,
+				4,
+				0,
+				2,
+				0,
+				6,
+				4,
+				1,
+				0
+			]);
+		}
+	},
+	{
+		name: 'CodeActionAdapter',
+		method: 'doCodeActions',
+		create: (accessor, editor) => new languageFeatures.CodeActionAdapter(accessor, editor),
+		provide: (adapter, model, token) =>
+			adapter.provideCodeActions(
+				model,
+				MONACO_RANGE,
+				{
+					markers: [{ ...MONACO_RANGE, message: 'Unknown property', code: 'unknownProperties' }]
+				},
+				token
+			),
+		check: (result, calls) => {
+			assert.deepStrictEqual(calls.doCodeActions[1], RANGE);
+			assert.deepStrictEqual(calls.doCodeActions[2].diagnostics[0].range, RANGE);
+			assert.strictEqual(calls.doCodeActions[2].diagnostics[0].code, 'unknownProperties');
+			assert.deepStrictEqual(result.actions[0].edit.edits[0].edit, {
+				range: MONACO_RANGE,
+				text: 'color'
+			});
+		}
+	},
+	{
+		name: 'DocumentFormattingEditAdapter',
+		method: 'format',
+		create: (accessor, editor) =>
+			new languageFeatures.DocumentFormattingEditAdapter(accessor, editor),
+		provide: (adapter, model, token) =>
+			adapter.provideDocumentFormattingEdits(model, { tabSize: 2, insertSpaces: true }, token),
+		check: (result, calls) => {
+			assert.strictEqual(calls.format[1], null);
+			assert.deepStrictEqual(calls.format[2], { tabSize: 2, insertSpaces: true });
+			assert.deepStrictEqual(result, [{ range: MONACO_RANGE, text: 'color' }]);
+		}
+	},
+	{
+		name: 'DocumentRangeFormattingEditAdapter',
+		method: 'format',
+		create: (accessor, editor) =>
+			new languageFeatures.DocumentRangeFormattingEditAdapter(accessor, editor),
+		provide: (adapter, model, token) =>
+			adapter.provideDocumentRangeFormattingEdits(
+				model,
+				MONACO_RANGE,
+				{ tabSize: 2, insertSpaces: true },
+				token
+			),
+		check: (result, calls) => {
+			assert.deepStrictEqual(calls.format[1], RANGE);
+			assert.deepStrictEqual(result, [{ range: MONACO_RANGE, text: 'color' }]);
+		}
+	}
+];
+
+describe('adapters', () => {
+	for (const adapterCase of ADAPTERS) {
+		describe(adapterCase.name, () => {
+			it('converts positions and ranges both ways', async () => {
+				const editor = createEditor();
+				const languages = createLanguages();
+				const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+				const { worker, calls } = createFakeWorker();
+				const adapter = adapterCase.create(toAccessor(worker), editor, languages);
+				const result = await adapterCase.provide(adapter, model, createToken());
+				assert.strictEqual(calls[adapterCase.method][0], 'file:///a');
+				adapterCase.check(result, calls, languages);
+			});
+
+			it('does not ask the worker once the request is cancelled', async () => {
+				const editor = createEditor();
+				const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+				const { worker, calls } = createFakeWorker();
+				const adapter = adapterCase.create(toAccessor(worker), editor, createLanguages());
+				const token = createToken();
+				token.cancel();
+				assert.strictEqual(await adapterCase.provide(adapter, model, token), undefined);
+				assert.strictEqual(calls[adapterCase.method], undefined);
+			});
+
+			it('drops the answer when the request is cancelled meanwhile', async () => {
+				const editor = createEditor();
+				const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+				const token = createToken();
+				const { worker } = createFakeWorker(() => token.cancel());
+				const adapter = adapterCase.create(toAccessor(worker), editor, createLanguages());
+				assert.strictEqual(await adapterCase.provide(adapter, model, token), undefined);
+			});
+
+			it('drops the answer when the model changed meanwhile', async () => {
+				const editor = createEditor();
+				const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+				const { worker } = createFakeWorker(() => model.setValue(TEXT + 'margin: 0;'));
+				const adapter = adapterCase.create(toAccessor(worker), editor, createLanguages());
+				assert.strictEqual(await adapterCase.provide(adapter, model, createToken()), undefined);
+			});
+
+			it('drops the answer when the model is disposed meanwhile', async () => {
+				const editor = createEditor();
+				const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+				const { worker } = createFakeWorker(() => editor.disposeModel(model));
+				const adapter = adapterCase.create(toAccessor(worker), editor, createLanguages());
+				assert.strictEqual(await adapterCase.provide(adapter, model, createToken()), undefined);
+			});
+		});
+	}
+});
+
+function flush() {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('DiagnosticsAdapter', () => {
+	const DIAGNOSTICS = [
+		{ range: RANGE, message: 'error', severity: 1, code: 'unknownProperties', source: 'css' },
+		{ range: RANGE, message: 'warning', severity: 2, code: 7 },
+		{ range: RANGE, message: 'information', severity: 3 },
+		{ range: RANGE, message: 'hint', severity: 4 }
+	];
+
+	function setup(onCall) {
+		const editor = createEditor();
+		const defaults = cssInJsDefaults(editor);
+		const worker = {
+			doValidation: (uri) => {
+				if (onCall) {
+					onCall(uri);
+				}
+				return Promise.resolve(DIAGNOSTICS);
+			}
+		};
+		const adapter = new languageFeatures.DiagnosticsAdapter(
+			defaults.languageId,
+			toAccessor(worker),
+			editor,
+			defaults
+		);
+		return { editor, defaults, adapter };
+	}
+
+	it('converts diagnostics to markers', async () => {
+		const { editor, adapter } = setup();
+		editor.createModel('file:///a', 'cssInJs', TEXT);
+		await flush();
+		const markers = editor.markers.cssInJs['file:///a'];
+		assert.deepStrictEqual(
+			markers.map((marker) => marker.severity),
+			[MarkerSeverity.Error, MarkerSeverity.Warning, MarkerSeverity.Info, MarkerSeverity.Hint]
+		);
+		assert.deepStrictEqual(markers[0], {
+			severity: MarkerSeverity.Error,
+			startLineNumber: 2,
+			startColumn: 3,
+			endLineNumber: 2,
+			endColumn: 7,
+			message: 'error',
+			code: 'unknownProperties',
+			source: 'css'
+		});
+		assert.strictEqual(markers[1].code, '7');
+		adapter.dispose();
+	});
+
+	it('marks every model of the language', async () => {
+		const validated = [];
+		const { editor, adapter } = setup((uri) => validated.push(uri));
+		editor.createModel('file:///a', 'cssInJs', TEXT);
+		editor.createModel('file:///b', 'cssInJs', TEXT);
+		await flush();
+		assert.deepStrictEqual(validated, ['file:///a', 'file:///b']);
+		assert.deepStrictEqual(Object.keys(editor.markers.cssInJs), ['file:///a', 'file:///b']);
+		assert.strictEqual(editor.markers.cssInJs['file:///b'][0].severity, MarkerSeverity.Error);
+		adapter.dispose();
+	});
+
+	it('ignores models of other languages', async () => {
+		const { editor, adapter } = setup();
+		editor.createModel('file:///a.js', 'javascript', TEXT);
+		await flush();
+		assert.strictEqual(editor.markers.cssInJs, undefined);
+		adapter.dispose();
+	});
+
+	it('drops markers of a model edited while it was validated', async () => {
+		let model;
+		const { editor, adapter } = setup(() => {
+			if (model) {
+				model._version++;
+			}
+		});
+		model = editor.createModel('file:///a', 'cssInJs', TEXT);
+		await flush();
+		assert.strictEqual(editor.markers.cssInJs, undefined);
+		adapter.dispose();
+	});
+
+	it('clears the markers of a disposed model', async () => {
+		const { editor, adapter } = setup();
+		const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+		await flush();
+		editor.disposeModel(model);
+		assert.deepStrictEqual(editor.markers.cssInJs['file:///a'], []);
+		adapter.dispose();
+	});
+
+	it('validates nothing when diagnostics are turned off', async () => {
+		const { editor, defaults, adapter } = setup();
+		defaults.setModeConfiguration({ ...defaults.modeConfiguration, diagnostics: false });
+		editor.createModel('file:///a', 'cssInJs', TEXT);
+		await flush();
+		assert.strictEqual(editor.markers.cssInJs, undefined);
+		adapter.dispose();
+	});
+});
+
+describe('adapters with a main thread worker', () => {
+	it('map positions through the template wrapper', async () => {
+		const editor = createEditor();
+		const defaults = cssInJsDefaults(editor);
+		const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+		const worker = createMainThreadWorker(editor, defaults);
+		const hover = await new languageFeatures.HoverAdapter(toAccessor(worker), editor).provideHover(
+			model,
+			{ lineNumber: 1, column: 3 },
+			createToken()
+		);
+		assert.deepStrictEqual(hover.range, new Range(1, 1, 1, 11));
+		const highlights = await new languageFeatures.DocumentHighlightAdapter(
+			toAccessor(worker),
+			createLanguages(),
+			editor
+		).provideDocumentHighlights(model, { lineNumber: 1, column: 3 }, createToken());
+		assert.deepStrictEqual(
+			highlights.map((highlight) => highlight.range),
+			[new Range(1, 1, 1, 6)]
+		);
+	});
+
+	it('pass the cancellation token to the worker', async () => {
+		const editor = createEditor();
+		const defaults = cssInJsDefaults(editor);
+		const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+		const worker = createMainThreadWorker(editor, defaults);
+		const doHover = worker.doHover;
+		let args;
+		worker.doHover = (...rest) => {
+			args = rest;
+			return doHover.apply(worker, rest);
+		};
+		const token = createToken();
+		await new languageFeatures.HoverAdapter(toAccessor(worker), editor).provideHover(
+			model,
+			{ lineNumber: 1, column: 3 },
+			token
+		);
+		assert.strictEqual(args[2], token);
+	});
+
+	it('give a web worker proxy a request id to cancel in place of the token', async () => {
+		const editor = createEditor();
+		const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+		const token = createToken();
+		const { worker, calls } = createFakeWorker((method) => {
+			if (method === 'doHover') {
+				token.cancel();
+			}
+		});
+		await new languageFeatures.HoverAdapter(toAccessor(worker), editor).provideHover(
+			model,
+			POSITION,
+			token
+		);
+		assert.strictEqual(typeof calls.doHover[2], 'number');
+		assert.deepStrictEqual(calls.cancelRequest, [calls.doHover[2]]);
+	});
+
+	it('only cancel the requests of a web worker proxy that still run', async () => {
+		const editor = createEditor();
+		const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+		const token = createToken();
+		const { worker, calls } = createFakeWorker();
+		await new languageFeatures.HoverAdapter(toAccessor(worker), editor).provideHover(
+			model,
+			POSITION,
+			token
+		);
+		token.cancel();
+		assert.strictEqual(calls.cancelRequest, undefined);
+	});
+
+	it('stop a request of a web worker proxy cancelled while the worker runs it', async () => {
+		const editor = createEditor();
+		const defaults = cssInJsDefaults(editor);
+		const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+		const mainThreadWorker = createMainThreadWorker(editor, defaults);
+		const token = createToken();
+		let answer;
+		// forwards the calls like a proxy, which is not a `CSSInJSWorker`
+		const proxy = {
+			doHover: (...args) => {
+				answer = mainThreadWorker.doHover(...args);
+				token.cancel();
+				return answer;
+			},
+			cancelRequest: (requestId) => mainThreadWorker.cancelRequest(requestId)
+		};
+		await new languageFeatures.HoverAdapter(toAccessor(proxy), editor).provideHover(
+			model,
+			{ lineNumber: 1, column: 3 },
+			token
+		);
+		assert.strictEqual(await answer, null);
+	});
+
+	it('rename variables in every model', async () => {
+		const editor = createEditor();
+		const defaults = cssInJsDefaults(editor);
+		const model = editor.createModel('file:///a', 'cssInJs', 'color: var(--brand);');
+		const other = editor.createModel('file:///b', 'cssInJs', '--brand: red;');
+		const worker = createMainThreadWorker(editor, defaults);
+		await worker.doValidation(other.uri.toString());
+		const edit = await new languageFeatures.RenameAdapter(
+			toAccessor(worker),
+			editor
+		).provideRenameEdits(model, { lineNumber: 1, column: 14 }, '--main', createToken());
+		assert.deepStrictEqual(
+			edit.edits.map((edit) => [edit.resource.toString(), edit.edit]),
+			[
+				['file:///a', { range: new Range(1, 12, 1, 19), text: '--main' }],
+				['file:///b', { range: new Range(1, 1, 1, 8), text: '--main' }]
+			]
+		);
+	});
+
+	it('leave out definitions and references in library documents', async () => {
+		const editor = createEditor();
+		const defaults = cssInJsDefaults(editor);
+		defaults.setLibraryDocuments({ 'file:///theme.css': ':root { --brand: red; }' });
+		const model = editor.createModel('file:///a', 'cssInJs', 'color: var(--brand);');
+		const worker = toAccessor(createMainThreadWorker(editor, defaults));
+		const position = { lineNumber: 1, column: 14 };
+		assert.strictEqual(
+			await new languageFeatures.DefinitionAdapter(worker, editor).provideDefinition(
+				model,
+				position,
+				createToken()
+			),
+			undefined
+		);
+		const references = await new languageFeatures.ReferenceAdapter(
+			worker,
+			editor
+		).provideReferences(model, position, { includeDeclaration: true }, createToken());
+		assert.deepStrictEqual(
+			references.map((reference) => reference.uri.toString()),
+			['file:///a']
+		);
+	});
+
+	it('show inlay hints of lengths and theme tokens', async () => {
+		const editor = createEditor();
+		const languages = createLanguages();
+		const defaults = cssInJsDefaults(editor);
+		defaults.setThemeTokenProvider({ tokens: { space: ['4px'] } });
+		const model = editor.createModel(
+			'file:///a',
+			'cssInJs',
+			'margin: 1.5rem;\npadding: ${theme.space[0]};'
+		);
+		const worker = createMainThreadWorker(editor, defaults);
+		const hints = await new languageFeatures.InlayHintsAdapter(
+			toAccessor(worker),
+			languages,
+			new ThemeTokenService(defaults)
+		).provideInlayHints(model, new Range(1, 1, 2, 27), createToken());
+		assert.deepStrictEqual(
+			hints.map((hint) => [hint.text, hint.position, hint.kind]),
+			[
+				['= 24px', { lineNumber: 1, column: 15 }, languages.InlayHintKind.Other],
+				['= 4px', { lineNumber: 2, column: 26 }, languages.InlayHintKind.Other]
+			]
+		);
+	});
+
+	it('show the theme token hints when the worker has none', async () => {
+		const editor = createEditor();
+		const languages = createLanguages();
+		const defaults = cssInJsDefaults(editor);
+		defaults.setThemeTokenProvider({ tokens: { space: ['4px'] } });
+		const model = editor.createModel('file:///a', 'cssInJs', 'padding: ${theme.space[0]};');
+		const worker = { getInlayHints: () => Promise.resolve(null) };
+		const hints = await new languageFeatures.InlayHintsAdapter(
+			toAccessor(worker),
+			languages,
+			new ThemeTokenService(defaults)
+		).provideInlayHints(model, new Range(1, 1, 1, 28), createToken());
+		assert.deepStrictEqual(
+			hints.map((hint) => [hint.text, hint.position]),
+			[['= 4px', { lineNumber: 1, column: 26 }]]
+		);
+	});
+
+	it('offer quick fixes for unknown properties', async () => {
+		const editor = createEditor();
+		const defaults = cssInJsDefaults(editor);
+		const model = editor.createModel('file:///a', 'cssInJs', TEXT);
+		const worker = createMainThreadWorker(editor, defaults);
+		const marker = {
+			startLineNumber: 2,
+			startColumn: 1,
+			endLineNumber: 2,
+			endColumn: 5,
+			message: "Unknown property: 'colr'",
+			code: 'unknownProperties'
+		};
+		const result = await new languageFeatures.CodeActionAdapter(
+			toAccessor(worker),
+			editor
+		).provideCodeActions(model, new Range(2, 1, 2, 5), { markers: [marker] }, createToken());
+		const action = result.actions.filter((action) => action.title === "Rename to 'color'")[0];
+		assert.strictEqual(action.kind, 'quickfix');
+		assert.deepStrictEqual(
+			action.edit.edits.map((edit) => [edit.resource.toString(), edit.edit]),
+			[['file:///a', { range: new Range(2, 1, 2, 5), text: 'color' }]]
+		);
+	});
+});
+
+describe('theme tokens', () => {
+	const tokens = { colors: { primary: '#0070f3' }, space: [0, '4px', '0.5rem'] };
+	const text = [
+		'color: ${theme.colors.};',
+		'margin: ;',
+		'border-color: var(--colors-primary);',
+		'padding: ${theme.space[2]};'
+	].join('\n');
+
+	function setup(reference) {
+		const editor = createEditor();
+		const defaults = cssInJsDefaults(editor);
+		defaults.setThemeTokenProvider({ tokens, reference });
+		const model = editor.createModel('file:///a', 'cssInJs', text);
+		const worker = toAccessor(createMainThreadWorker(editor, defaults));
+		return { editor, defaults, model, worker, themeTokens: new ThemeTokenService(defaults) };
+	}
+
+	it('completes the members of the theme', async () => {
+		const { editor, model, worker, themeTokens } = setup();
+		const result = await new languageFeatures.CompletionAdapter(
+			worker,
+			editor,
+			themeTokens
+		).provideCompletionItems(model, { lineNumber: 1, column: 23 }, {}, createToken());
+		const item = result.suggestions.filter((item) => item.label === 'primary')[0];
+		assert.strictEqual(item.insertText, '.primary');
+		assert.deepStrictEqual(item.range, new Range(1, 22, 1, 23));
+	});
+
+	it('completes the tokens that fit the property', async () => {
+		for (const [reference, insertText] of [
+			['theme', '${theme.space[1]}'],
+			['customProperty', 'var(--space-1)']
+		]) {
+			const { editor, model, worker, themeTokens } = setup(reference);
+			const result = await new languageFeatures.CompletionAdapter(
+				worker,
+				editor,
+				themeTokens
+			).provideCompletionItems(model, { lineNumber: 2, column: 9 }, {}, createToken());
+			const items = result.suggestions.filter((item) => item.detail === '4px');
+			assert.deepStrictEqual(
+				items.map((item) => item.insertText),
+				[insertText]
+			);
+			assert.strictEqual(
+				result.suggestions.filter((item) => item.detail === '#0070f3').length,
+				0,
+				'no colors for margin'
+			);
+		}
+	});
+
+	it('hovers the references of a token', async () => {
+		const { editor, model, worker, themeTokens } = setup();
+		const adapter = new languageFeatures.HoverAdapter(worker, editor, themeTokens);
+		const color = await adapter.provideHover(model, { lineNumber: 3, column: 22 }, createToken());
+		assert.deepStrictEqual(color.range, new Range(3, 15, 3, 36));
+		assert.strictEqual(color.contents.length, 2, 'the property and the token');
+		assert.ok(color.contents[0].value.indexOf('The color of the border') === 0);
+		assert.ok(color.contents[1].value.indexOf('**theme.colors.primary** `--colors-primary`') === 0);
+		const size = await adapter.provideHover(model, { lineNumber: 4, column: 16 }, createToken());
+		assert.strictEqual(size.contents[0].value, '**theme.space[2]** `--space-2`\n\n`0.5rem` (8px)');
+	});
+
+	it('has no tokens when the provider throws', async () => {
+		const { editor, defaults, model, worker, themeTokens } = setup();
+		defaults.setThemeTokenProvider({
+			tokens: () => {
+				throw new Error('no theme');
+			}
+		});
+		const errors = [];
+		const consoleError = console.error;
+		console.error = (error) => errors.push(error.message);
+		try {
+			const hover = await new languageFeatures.HoverAdapter(
+				worker,
+				editor,
+				themeTokens
+			).provideHover(model, { lineNumber: 3, column: 22 }, createToken());
+			assert.strictEqual(hover.contents.length, 1, 'only the property');
+		} finally {
+			console.error = consoleError;
+		}
+		assert.deepStrictEqual(errors, ['no theme']);
+	});
+
+	it('converts sizes with the root font size of the options', async () => {
+		const { editor, defaults, model, worker, themeTokens } = setup();
+		defaults.setOptions({ ...defaults.options, inlayHints: { rootFontSize: 10 } });
+		const hover = await new languageFeatures.HoverAdapter(worker, editor, themeTokens).provideHover(
+			model,
+			{ lineNumber: 4, column: 16 },
+			createToken()
+		);
+		assert.strictEqual(hover.contents[0].value, '**theme.space[2]** `--space-2`\n\n`0.5rem` (5px)');
+		const hints = await new languageFeatures.InlayHintsAdapter(
+			worker,
+			createLanguages(),
+			themeTokens
+		).provideInlayHints(model, new Range(4, 1, 4, 28), createToken());
+		assert.deepStrictEqual(
+			hints.map((hint) => hint.text),
+			['= 0.5rem (5px)']
+		);
+	});
+
+	it('shows the colors of tokens and keeps their references', async () => {
+		const { editor, model, worker, themeTokens } = setup();
+		const adapter = new languageFeatures.DocumentColorAdapter(worker, editor, themeTokens);
+		const colors = await adapter.provideDocumentColors(model, createToken());
+		assert.deepStrictEqual(
+			colors.map((color) => color.range),
+			[new Range(3, 15, 3, 36)]
+		);
+		assert.strictEqual(colors[0].color.blue, 243 / 255);
+		assert.deepStrictEqual(
+			await adapter.provideColorPresentations(model, colors[0], createToken()),
+			[{ label: 'var(--colors-primary)' }]
+		);
+	});
+});
@@ -0,0 +1,29 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Module hooks that let Node import the ES modules of monaco-editor-core, which are written for
+// bundlers: their relative imports leave out the `.js` extension and the package doesn't declare
+// `"type": "module"`. Only the Monarch lexer is imported, it needs no DOM.
+
+const ESM_ROOT = '/monaco-editor-core/esm/';
+
+export async function resolve(specifier, context, nextResolve) {
+	if (
+		context.parentURL &&
+		context.parentURL.includes(ESM_ROOT) &&
+		specifier.startsWith('.') &&
+		!specifier.endsWith('.js')
+	) {
+		return nextResolve(specifier + '.js', context);
+	}
+	return nextResolve(specifier, context);
+}
+
+export async function load(url, context, nextLoad) {
+	if (url.includes(ESM_ROOT)) {
+		return nextLoad(url, { ...context, format: 'module' });
+	}
+	return nextLoad(url, context);
+}
@@ -0,0 +1,83 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Runs the Monarch grammars of cssInJsLang over the fixtures and compares the tokens with the
+// snapshots next to them. After an intended change to a grammar, rewrite the snapshots with
+// `UPDATE_SNAPSHOTS=1 npm test` and review their diff; a new fixture gets its snapshot the same
+// way. Snapshots are never written on CI, where a missing or outdated one fails the test.
+
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+const { register } = require('node:module');
+const { pathToFileURL } = require('url');
+const loadAmd = require('../scripts/amd');
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'tokenizer');
+const UPDATE = !!process.env.UPDATE_SNAPSHOTS && !process.env.CI;
+
+const cssInJsLang = loadAmd('vs/language/css/cssInJsLang');
+
+// the grammar of each dialect, by fixture extension
+const GRAMMARS = {
+	'.scss': cssInJsLang.language,
+	'.css': cssInJsLang.cssLanguage,
+	'.less': cssInJsLang.lessLanguage
+};
+
+register('./monarchHooks.mjs', pathToFileURL(__filename));
+
+let compile;
+let MonarchTokenizer;
+
+before(async () => {
+	const monarch = 'monaco-editor-core/esm/vs/editor/standalone/common/monarch/';
+	compile = (await import(monarch + 'monarchCompile.js')).compile;
+	MonarchTokenizer = (await import(monarch + 'monarchLexer.js')).MonarchTokenizer;
+});
+
+/**
+ * Tokenizes `text` line by line, as the editor does, and lists each line followed by its tokens:
+ * the text of the token, then its type unless it has none.
+ */
+function tokenize(grammar, text) {
+	const tokenizer = new MonarchTokenizer(null, null, 'cssInJs', compile('cssInJs', grammar));
+	let state = tokenizer.getInitialState();
+	const result = [];
+	for (const line of text.split('\n')) {
+		const { tokens, endState } = tokenizer.tokenize(line, true, state, 0);
+		result.push(line);
+		tokens.forEach((token, index) => {
+			const end = index + 1 < tokens.length ? tokens[index + 1].offset : line.length;
+			result.push(`  ${JSON.stringify(line.substring(token.offset, end))} ${token.type}`.trimEnd());
+		});
+		state = endState;
+	}
+	tokenizer.dispose();
+	return result.join('\n') + '\n';
+}
+
+describe('Monarch tokenizer', () => {
+	for (const fixture of fs.readdirSync(FIXTURES).sort()) {
+		const grammar = GRAMMARS[path.extname(fixture)];
+		if (!grammar) {
+			continue;
+		}
+		it(fixture, () => {
+			const text = fs.readFileSync(path.join(FIXTURES, fixture), 'utf8').replace(/\r?\n$/, '');
+			const actual = tokenize(grammar, text.replace(/\r\n/g, '\n'));
+			const snapshot = path.join(FIXTURES, fixture + '.tokens');
+			if (UPDATE) {
+				fs.writeFileSync(snapshot, actual);
+				return;
+			}
+			if (!fs.existsSync(snapshot)) {
+				assert.fail(`${fixture} has no snapshot, write it with UPDATE_SNAPSHOTS=1 npm test`);
+			}
+			assert.strictEqual(actual, fs.readFileSync(snapshot, 'utf8').replace(/\r\n/g, '\n'));
+		});
+	}
+});
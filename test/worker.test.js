@@ -0,0 +1,996 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert');
+const loadAmd = require('../scripts/amd');
+const { createWorkerContext } = require('./fakes');
+
+const { CSSInJSWorker } = loadAmd('vs/language/css/cssWorker');
+
+const EMBEDDED = { styleTags: ['styled.*', 'css'], keyframesTags: ['keyframes'] };
+
+function createWorker(texts, syntax = 'template', options = {}) {
+	return new CSSInJSWorker(createWorkerContext(texts), {
+		languageId: 'cssInJs',
+		syntax,
+		options: { embedded: EMBEDDED, ...options }
+	});
+}
+
+function range(startLine, startCharacter, endLine, endCharacter) {
+	return {
+		start: { line: startLine, character: startCharacter },
+		end: { line: endLine, character: endCharacter }
+	};
+}
+
+describe('CSSInJSWorker position mapping', () => {
+	const texts = {
+		'file:///template': 'color: red;\n&:hover {\n  colr: blue;\n}',
+		'file:///placeholder': 'margin: ${(p) => p.m};\ncolr: red;',
+		'file:///embedded': 'const A = styled.div`\n  colr: red;\n`;\nconst B = css`color: blue;`;',
+		'file:///other':
+			'const fade = keyframes`\n  from { opacity: 0; }\n`;\nconst C = other`colr: red;`;',
+		'file:///object': "{ colr: 'red', backgroundColor: 'blue' }"
+	};
+
+	it('maps diagnostics out of the template wrapper', async () => {
+		const diagnostics = await createWorker(texts).doValidation('file:///template');
+		assert.deepStrictEqual(
+			diagnostics.map((diagnostic) => diagnostic.range),
+			[range(2, 2, 2, 6)]
+		);
+		assert.strictEqual(diagnostics[0].message, "Unknown property: 'colr'");
+	});
+
+	it('maps diagnostics after a placeholder', async () => {
+		const diagnostics = await createWorker(texts).doValidation('file:///placeholder');
+		assert.deepStrictEqual(
+			diagnostics.map((diagnostic) => diagnostic.range),
+			[range(1, 0, 1, 4)]
+		);
+	});
+
+	it('maps the first line of a template to the start of the model', async () => {
+		const worker = createWorker(texts);
+		const hover = await worker.doHover('file:///template', { line: 0, character: 2 });
+		assert.deepStrictEqual(hover.range, range(0, 0, 0, 10));
+		const highlights = await worker.findDocumentHighlights('file:///template', {
+			line: 0,
+			character: 2
+		});
+		assert.deepStrictEqual(
+			highlights.map((highlight) => highlight.range),
+			[range(0, 0, 0, 5)]
+		);
+	});
+
+	it('maps colors and folding ranges', async () => {
+		const worker = createWorker(texts);
+		const colors = await worker.findDocumentColors('file:///template');
+		assert.deepStrictEqual(
+			colors.map((color) => color.range),
+			[range(0, 7, 0, 10), range(2, 8, 2, 12)]
+		);
+		const foldingRanges = await worker.getFoldingRanges('file:///template', {});
+		assert.deepStrictEqual(
+			foldingRanges.map((foldingRange) => [foldingRange.startLine, foldingRange.endLine]),
+			[[1, 2]]
+		);
+	});
+
+	it('leaves the wrapper rule out of the symbols', async () => {
+		const symbols = await createWorker(texts).findDocumentSymbols('file:///template');
+		assert.deepStrictEqual(
+			symbols.map((symbol) => [symbol.name, symbol.range, symbol.selectionRange]),
+			[['&:hover', range(1, 0, 3, 1), range(1, 0, 1, 7)]]
+		);
+	});
+
+	it('never selects the wrapper', async () => {
+		const [selection] = await createWorker(texts).getSelectionRanges('file:///template', [
+			{ line: 2, character: 3 }
+		]);
+		let outermost = selection;
+		while (outermost.parent) {
+			outermost = outermost.parent;
+		}
+		assert.deepStrictEqual(selection.range, range(2, 2, 2, 6));
+		assert.deepStrictEqual(outermost.range, range(1, 0, 3, 1));
+	});
+
+	it('formats the user text only', async () => {
+		const edits = await createWorker(texts).format('file:///template', null, {
+			tabSize: 2,
+			insertSpaces: true
+		});
+		assert.deepStrictEqual(edits, [
+			{
+				range: range(0, 0, 3, 1),
+				newText: 'color: red;\n\n&:hover {\n  colr: blue;\n}'
+			}
+		]);
+	});
+
+	it('formats a range of the user text', async () => {
+		const worker = createWorker({ 'file:///range': 'color:red;\n&:hover{margin:0;padding:0}' });
+		const edits = await worker.format('file:///range', range(1, 0, 1, 27), {
+			tabSize: 2,
+			insertSpaces: true
+		});
+		assert.deepStrictEqual(edits, [
+			{ range: range(1, 0, 1, 27), newText: '&:hover {\n  margin: 0;\n  padding: 0\n}' }
+		]);
+	});
+
+	it('maps tagged templates of JavaScript models', async () => {
+		const worker = createWorker(texts, 'embedded');
+		const diagnostics = await worker.doValidation('file:///embedded');
+		assert.deepStrictEqual(
+			diagnostics.map((diagnostic) => diagnostic.range),
+			[range(1, 2, 1, 6)]
+		);
+		const hover = await worker.doHover('file:///embedded', { line: 3, character: 19 });
+		assert.deepStrictEqual(hover.range, range(3, 14, 3, 25));
+	});
+
+	it('leaves the JavaScript and templates with other tags alone', async () => {
+		const worker = createWorker(texts, 'embedded');
+		assert.strictEqual(await worker.doHover('file:///embedded', { line: 0, character: 3 }), null);
+		assert.deepStrictEqual(await worker.doValidation('file:///other'), []);
+	});
+
+	it('keeps the interpolations of each tagged template apart', async () => {
+		const worker = createWorker(
+			{
+				'file:///templates':
+					'const A = styled.a`\n  ${Foo}:hover { color: red; }\n`;\n' +
+					'const B = styled.a`\n  ${Bar}:hover { color: blue; }\n`;'
+			},
+			'embedded'
+		);
+		const symbols = await worker.findDocumentSymbols('file:///templates');
+		assert.deepStrictEqual(
+			symbols.map((symbol) => symbol.name),
+			['${Foo}:hover', '${Bar}:hover']
+		);
+	});
+
+	it('maps object styles to their keys', async () => {
+		const worker = createWorker(texts, 'object');
+		const diagnostics = await worker.doValidation('file:///object');
+		assert.deepStrictEqual(
+			diagnostics.map((diagnostic) => diagnostic.range),
+			[range(0, 2, 0, 6)]
+		);
+		const hover = await worker.doHover('file:///object', { line: 0, character: 18 });
+		assert.deepStrictEqual(hover.range, range(0, 15, 0, 37));
+	});
+});
+
+describe('CSSInJSWorker context', () => {
+	it('serves the models of a context attached later', async () => {
+		const worker = new CSSInJSWorker();
+		assert.deepStrictEqual(await worker.doValidation('file:///a'), []);
+		worker.attachContext(createWorkerContext({ 'file:///a': 'colr: red;' }));
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 1);
+		worker.attachContext(createWorkerContext({ 'file:///b': 'colr: red;' }));
+		assert.deepStrictEqual(await worker.doValidation('file:///b'), [], 'keeps its context');
+	});
+});
+
+describe('CSSInJSWorker options', () => {
+	const texts = { 'file:///template': 'colr: red;\ncolor: blue !important;' };
+
+	it('turns validation off', async () => {
+		const worker = createWorker(texts, 'template', { validate: false });
+		assert.deepStrictEqual(await worker.doValidation('file:///template'), []);
+	});
+
+	it('applies the lint settings', async () => {
+		const worker = createWorker(texts, 'template', {
+			lint: { unknownProperties: 'ignore', important: 'error' }
+		});
+		const diagnostics = await worker.doValidation('file:///template');
+		assert.deepStrictEqual(
+			diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.severity]),
+			[['important', 1]]
+		);
+	});
+
+	it('knows the properties of custom data providers', async () => {
+		const worker = createWorker(texts, 'template', {
+			data: {
+				dataProviders: {
+					custom: {
+						version: 1.1,
+						properties: [{ name: 'colr', description: 'A custom property.' }]
+					}
+				}
+			}
+		});
+		assert.deepStrictEqual(await worker.doValidation('file:///template'), []);
+		const hover = await worker.doHover('file:///template', { line: 0, character: 1 });
+		assert.strictEqual(hover.contents.value, 'A custom property\\.');
+	});
+});
+
+describe('CSSInJSWorker interpolations', () => {
+	const texts = {
+		'file:///interpolations': [
+			'${Button}:hover {',
+			'  color: red;',
+			'}',
+			'${(p) => p.active && css`color: blue;`}',
+			'${prop}: 1px;',
+			'border: ${w}px solid ${(p) => p.theme.c};'
+		].join('\n'),
+		'file:///format': '${Button}:hover{color:${c};}'
+	};
+
+	it('accepts interpolations in selectors, properties, values and statements', async () => {
+		assert.deepStrictEqual(await createWorker(texts).doValidation('file:///interpolations'), []);
+	});
+
+	it('puts the interpolations back into formatted text', async () => {
+		const edits = await createWorker(texts).format('file:///format', null, {
+			tabSize: 2,
+			insertSpaces: true
+		});
+		assert.deepStrictEqual(
+			edits.map((edit) => edit.newText),
+			['${Button}:hover {\n  color: ${c};\n}']
+		);
+	});
+});
+
+describe('CSSInJSWorker object styles', () => {
+	const texts = {
+		'file:///nested': "{\n  '&:hover': { colr: 'red' },\n  padding: 4,\n  margin: theme.space\n}",
+		'file:///complete': '{ backgr }'
+	};
+
+	it('checks nested rules and leaves other values alone', async () => {
+		const diagnostics = await createWorker(texts, 'object').doValidation('file:///nested');
+		assert.deepStrictEqual(
+			diagnostics.map((diagnostic) => [diagnostic.range, diagnostic.message]),
+			[[range(1, 15, 1, 19), "Unknown property: 'colr'"]]
+		);
+	});
+
+	it('completes properties as camelCase keys', async () => {
+		const list = await createWorker(texts, 'object').doComplete('file:///complete', {
+			line: 0,
+			character: 8
+		});
+		const item = list.items.filter((item) => item.label === 'backgroundColor')[0];
+		assert.deepStrictEqual(item.textEdit, {
+			range: range(0, 2, 0, 8),
+			newText: "backgroundColor: '$0'"
+		});
+	});
+});
+
+describe('CSSInJSWorker dialects', () => {
+	const texts = {
+		'file:///less': '@gap: 4px;\nmargin: @gap;\n.mixin() { color: red; }\n&:hover { .mixin(); }',
+		'file:///scss': '$gap: 4px;\nmargin: $gap;'
+	};
+
+	function createDialectWorker(dialect) {
+		return new CSSInJSWorker(createWorkerContext(texts), { languageId: 'cssInJs', dialect });
+	}
+
+	it('parses the text with the language service of the dialect', async () => {
+		assert.deepStrictEqual(await createDialectWorker('less').doValidation('file:///less'), []);
+		assert.deepStrictEqual(await createDialectWorker('scss').doValidation('file:///scss'), []);
+		assert.notDeepStrictEqual(await createDialectWorker('scss').doValidation('file:///less'), []);
+		assert.notDeepStrictEqual(await createDialectWorker('less').doValidation('file:///scss'), []);
+	});
+});
+
+describe('CSSInJSWorker document symbols', () => {
+	const texts = {
+		'file:///outline': [
+			'$gap: 4px;',
+			'&:hover {',
+			'  .icon { color: red; }',
+			'  @media (min-width: 100px) {',
+			'    margin: 0;',
+			'  }',
+			'}'
+		].join('\n')
+	};
+
+	function outline(symbols) {
+		return symbols.map((symbol) => [symbol.name, outline(symbol.children || [])]);
+	}
+
+	it('nests the symbols of the user text', async () => {
+		const symbols = await createWorker(texts).findDocumentSymbols('file:///outline');
+		assert.deepStrictEqual(outline(symbols), [
+			['$gap', []],
+			[
+				'&:hover',
+				[
+					['.icon', []],
+					['@media (min-width: 100px)', []]
+				]
+			]
+		]);
+		assert.deepStrictEqual(symbols[1].children[1].range, range(3, 2, 5, 3));
+	});
+});
+
+describe('CSSInJSWorker cancellation', () => {
+	const texts = { 'file:///template': 'color: red;\n&:hover {\n  colr: blue;\n}' };
+	const cancelled = { isCancellationRequested: true };
+
+	it('answers cancelled requests with empty results', async () => {
+		const worker = createWorker(texts);
+		const position = { line: 0, character: 2 };
+		assert.deepStrictEqual(await worker.doValidation('file:///template', cancelled), []);
+		assert.strictEqual(await worker.doComplete('file:///template', position, cancelled), null);
+		assert.strictEqual(await worker.doHover('file:///template', position, cancelled), null);
+		assert.deepStrictEqual(await worker.findDocumentColors('file:///template', cancelled), []);
+	});
+
+	it('stops a request cancelled while the document is parsed', async () => {
+		const worker = createWorker(texts);
+		const token = { isCancellationRequested: false };
+		const diagnostics = worker.doValidation('file:///template', token);
+		token.isCancellationRequested = true;
+		assert.deepStrictEqual(await diagnostics, []);
+	});
+
+	it('stops a request of a web worker proxy once it is cancelled', async () => {
+		const worker = createWorker(texts);
+		const hover = worker.doHover('file:///template', { line: 0, character: 2 }, 1);
+		await worker.cancelRequest(1);
+		assert.strictEqual(await hover, null);
+		assert.notStrictEqual(
+			await worker.doHover('file:///template', { line: 0, character: 2 }, 2),
+			null
+		);
+	});
+
+	it('answers requests whose token is not cancelled', async () => {
+		const worker = createWorker(texts);
+		const diagnostics = await worker.doValidation('file:///template', {
+			isCancellationRequested: false
+		});
+		assert.strictEqual(diagnostics.length, 1);
+	});
+});
+
+describe('CSSInJSWorker document cache', () => {
+	function createVersionedWorker(model, options) {
+		const context = {
+			getMirrorModels: () => [
+				{ uri: { toString: () => 'file:///a' }, version: model.version, getValue: () => model.text }
+			]
+		};
+		return new CSSInJSWorker(context, { languageId: 'cssInJs', options });
+	}
+
+	it('parses a model again once its version changed', async () => {
+		const model = { version: 1, text: 'colr: red;' };
+		const worker = createVersionedWorker(model);
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 1);
+		model.text = 'color: red;';
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 1, 'same version');
+		model.version = 2;
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 0);
+	});
+
+	it('forgets a released document', async () => {
+		const model = { version: 1, text: 'colr: red;' };
+		const worker = createVersionedWorker(model);
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 1);
+		model.text = 'color: red;';
+		await worker.releaseDocument('file:///a');
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 0);
+	});
+
+	it('keeps no documents with a cache size of 0', async () => {
+		const model = { version: 1, text: 'colr: red;' };
+		const worker = createVersionedWorker(model, { documentCacheSize: 0 });
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 1);
+		model.text = 'color: red;';
+		assert.strictEqual((await worker.doValidation('file:///a')).length, 0);
+	});
+});
+
+describe('CSSInJSWorker modern CSS data', () => {
+	const texts = {
+		'file:///modern': [
+			'container: card / inline-size;',
+			'@layer reset, components;',
+			'@container card (min-width: 400px) {',
+			'  color: red;',
+			'}',
+			'@property --angle {',
+			"  syntax: '<angle>';",
+			'  inherits: false;',
+			'  initial-value: 0deg;',
+			'}'
+		].join('\n'),
+		'file:///at-rule': 'color: red;\n@con'
+	};
+
+	it('knows container queries, layers and registered properties', async () => {
+		const diagnostics = await createWorker(texts).doValidation('file:///modern');
+		assert.deepStrictEqual(diagnostics, []);
+	});
+
+	it('completes the at-rules that may be nested', async () => {
+		const list = await createWorker(texts).doComplete('file:///at-rule', { line: 1, character: 4 });
+		const container = list.items.filter((item) => item.label === '@container')[0];
+		assert.deepStrictEqual(container.textEdit.range, range(1, 0, 1, 4));
+		for (const label of ['@media', '@supports', '@layer']) {
+			assert.ok(
+				list.items.some((item) => item.label === label),
+				label
+			);
+		}
+	});
+
+	it('leaves the modern data out without the default data provider', async () => {
+		const worker = createWorker(texts, 'template', { data: { useDefaultDataProvider: false } });
+		const list = await worker.doComplete('file:///at-rule', { line: 1, character: 4 });
+		assert.ok(!list.items.some((item) => item.label === '@container'));
+	});
+});
+
+describe('CSSInJSWorker semantic tokens', () => {
+	const texts = {
+		'file:///tokens': [
+			'$gap: 4px;',
+			'colr: var(--brand);',
+			'${Button}:hover {',
+			'  margin: double($gap);',
+			'}',
+			'@function double($n) { @return $n * 2; }'
+		].join('\n')
+	};
+
+	it('classifies the parsed stylesheet in the user document', async () => {
+		const tokens = await createWorker(texts).getSemanticTokens('file:///tokens');
+		const lines = texts['file:///tokens'].split('\n');
+		assert.deepStrictEqual(
+			tokens.map((token) => [
+				lines[token.line].substr(token.character, token.length),
+				token.tokenType,
+				token.tokenModifiers
+			]),
+			[
+				['$gap', 1, 1],
+				['colr', 0, 2],
+				['--brand', 1, 0],
+				['${Button}', 3, 0],
+				[':hover', 2, 0],
+				['margin', 0, 0],
+				['double', 6, 0],
+				['$gap', 1, 0],
+				['@function', 4, 0],
+				['double', 6, 1],
+				['$n', 1, 1],
+				['@return', 4, 0],
+				['$n', 1, 0]
+			]
+		);
+	});
+});
+
+describe('CSSInJSWorker signature help', () => {
+	const texts = {
+		'file:///functions': [
+			'width: clamp(1rem, calc(2vw + 1px), 3rem);',
+			'color: rgb(0, 0, 0, 0.5);',
+			'@function double($n, $factor: 2) { @return $n * $factor; }',
+			'@mixin pad($x, $y) { padding: $y $x; }',
+			"margin: double(1px, 'a, b');",
+			'@include pad(1px, 2px);',
+			'grid: minmax(1fr, (2px), 3px);'
+		].join('\n')
+	};
+
+	async function signatureHelp(line, character) {
+		return createWorker(texts).getSignatureHelp('file:///functions', { line, character });
+	}
+
+	it('tracks the active parameter of the bundled signatures', async () => {
+		let help = await signatureHelp(0, 13);
+		assert.strictEqual(help.signatures[0].label, 'clamp(min, preferred, max)');
+		assert.strictEqual(help.activeParameter, 0);
+		help = await signatureHelp(0, 37);
+		assert.strictEqual(help.signatures[0].label, 'clamp(min, preferred, max)');
+		assert.strictEqual(help.activeParameter, 2);
+		help = await signatureHelp(0, 25);
+		assert.strictEqual(help.signatures[0].label, 'calc(expression)');
+	});
+
+	it('picks the overload with enough parameters', async () => {
+		const help = await signatureHelp(1, 21);
+		assert.deepStrictEqual(
+			help.signatures.map((signature) => signature.label),
+			['rgb(red, green, blue)', 'rgb(red, green, blue, alpha)']
+		);
+		assert.strictEqual(help.activeSignature, 1);
+		assert.strictEqual(help.activeParameter, 3);
+	});
+
+	it('reads the signatures of the functions and mixins of the document', async () => {
+		let help = await signatureHelp(4, 25);
+		assert.strictEqual(help.signatures[0].label, 'double($n, $factor: 2)');
+		assert.strictEqual(help.activeParameter, 1, 'the comma in the string is skipped');
+		help = await signatureHelp(5, 18);
+		assert.strictEqual(help.signatures[0].label, 'pad($x, $y)');
+		assert.strictEqual(help.activeParameter, 1);
+	});
+
+	it('skips parentheses without a name and declarations', async () => {
+		const help = await signatureHelp(6, 27);
+		assert.strictEqual(help.signatures[0].label, 'minmax(min, max)');
+		assert.strictEqual(help.activeParameter, 1);
+		assert.strictEqual(await signatureHelp(2, 17), null);
+		assert.strictEqual(await signatureHelp(0, 3), null);
+	});
+});
+
+describe('CSSInJSWorker variables across models', () => {
+	const texts = {
+		'file:///a': 'color: var(--brand);\n$gap: 4px;',
+		'file:///b': '--brand: red;\nmargin: $gap;\nborder-color: var(--brand);',
+		'file:///c': 'color: var(--accent);'
+	};
+	const libraryDocuments = { 'file:///theme.css': ':root { --accent: blue; }' };
+
+	function createIndexingWorker() {
+		return new CSSInJSWorker(createWorkerContext(texts), {
+			languageId: 'cssInJs',
+			libraryDocuments
+		});
+	}
+
+	it('finds the declaration in another model', async () => {
+		const worker = createIndexingWorker();
+		await worker.doValidation('file:///b');
+		assert.deepStrictEqual(await worker.findDefinition('file:///a', { line: 0, character: 13 }), {
+			uri: 'file:///b',
+			range: range(0, 0, 0, 7)
+		});
+		assert.deepStrictEqual(await worker.findDefinition('file:///b', { line: 1, character: 10 }), {
+			uri: 'file:///a',
+			range: range(1, 0, 1, 4)
+		});
+	});
+
+	it('finds the declaration in a library document', async () => {
+		const worker = createIndexingWorker();
+		assert.deepStrictEqual(await worker.findDefinition('file:///c', { line: 0, character: 13 }), {
+			uri: 'file:///theme.css',
+			range: range(0, 8, 0, 16)
+		});
+	});
+
+	it('finds the references in every model', async () => {
+		const worker = createIndexingWorker();
+		await worker.doValidation('file:///b');
+		const references = await worker.findReferences('file:///a', { line: 0, character: 13 });
+		assert.deepStrictEqual(
+			references.map((reference) => [reference.uri, reference.range]),
+			[
+				['file:///a', range(0, 11, 0, 18)],
+				['file:///b', range(0, 0, 0, 7)],
+				['file:///b', range(2, 18, 2, 25)]
+			]
+		);
+	});
+
+	it('stops a request cancelled while the other models are indexed', async () => {
+		const worker = createIndexingWorker();
+		await worker.doValidation('file:///b');
+		const token = { isCancellationRequested: false };
+		const references = worker.findReferences('file:///a', { line: 0, character: 13 }, token);
+		// runs once the document is parsed, before the other models are indexed
+		setTimeout(() => (token.isCancellationRequested = true), 0);
+		assert.deepStrictEqual(await references, []);
+	});
+
+	it('renames in every model but not in library documents', async () => {
+		const worker = createIndexingWorker();
+		await worker.doValidation('file:///b');
+		const edit = await worker.doRename('file:///a', { line: 0, character: 13 }, '--main');
+		assert.deepStrictEqual(Object.keys(edit.changes), ['file:///a', 'file:///b']);
+		assert.deepStrictEqual(
+			edit.changes['file:///b'].map((change) => change.range),
+			[range(0, 0, 0, 7), range(2, 18, 2, 25)]
+		);
+	});
+
+	it('refuses to rename a variable declared in a library document', async () => {
+		const worker = createIndexingWorker();
+		await assert.rejects(
+			worker.doRename('file:///c', { line: 0, character: 13 }, '--x'),
+			/Cannot rename `--accent`, it is declared in the library document file:\/\/\/theme.css/
+		);
+	});
+
+	it('ignores the models the editor did not ask about', async () => {
+		const worker = createIndexingWorker();
+		assert.strictEqual(await worker.findDefinition('file:///a', { line: 0, character: 13 }), null);
+	});
+});
+
+describe('CSSInJSWorker hover previews', () => {
+	const texts = {
+		'file:///previews': [
+			'background: linear-gradient(red, blue);',
+			'box-shadow: 0 1px 2px #0003;',
+			'text-shadow: 1px 1px red;',
+			'transition: opacity 1s ease-in, transform 1s steps(2, jump-start);',
+			'font: italic 12px/1.5 "Fira Code", monospace;',
+			'background: linear-gradient(${c}, blue);',
+			'text-shadow: 1px 1px $c;'
+		].join('\n')
+	};
+
+	// the label and the SVG of each image of the hover
+	async function getImages(worker, line) {
+		const hover = await worker.doHover('file:///previews', { line, character: 3 });
+		const result = [];
+		const pattern = /!\[([^\]]*)\]\(data:image\/svg\+xml,([^)]*)\)/g;
+		let match;
+		while ((match = pattern.exec(hover.contents.value))) {
+			result.push([match[1], decodeURIComponent(match[2])]);
+		}
+		return result;
+	}
+
+	it('draws gradients and shadows below the description', async () => {
+		const worker = createWorker(texts);
+		const hover = await worker.doHover('file:///previews', { line: 0, character: 3 });
+		assert.ok(hover.contents.value.indexOf('MDN Reference') < hover.contents.value.indexOf('!['));
+		const [[label, svg]] = await getImages(worker, 0);
+		assert.strictEqual(label, 'gradient');
+		assert.ok(svg.indexOf('background:linear-gradient(red, blue)') !== -1);
+		const [[boxLabel, boxSvg]] = await getImages(worker, 1);
+		assert.strictEqual(boxLabel, 'box-shadow');
+		assert.ok(boxSvg.indexOf('box-shadow:0 1px 2px #0003') !== -1);
+		const [[textLabel, textSvg]] = await getImages(worker, 2);
+		assert.strictEqual(textLabel, 'text-shadow');
+		assert.ok(textSvg.indexOf('text-shadow:1px 1px red') !== -1);
+	});
+
+	it('plots the easing curves of a transition', async () => {
+		const images = await getImages(createWorker(texts), 3);
+		assert.deepStrictEqual(
+			images.map(([label, svg]) => [label, /<path d="([^"]*)"/.exec(svg)[1]]),
+			[
+				['ease-in', 'M0,100 C42,100 100,0 100,0'],
+				['steps(2, jump-start)', 'M0,50 H50 L50,0 H100']
+			]
+		);
+	});
+
+	it('shows a sample text in each family of a font stack', async () => {
+		const [[label, svg]] = await getImages(createWorker(texts), 4);
+		assert.strictEqual(label, 'font stack');
+		assert.deepStrictEqual(svg.match(/font:16px .*?;line-height/g), [
+			'font:16px &quot;Fira Code&quot;;line-height',
+			'font:16px monospace;line-height'
+		]);
+	});
+
+	it('leaves out values with interpolations or variables', async () => {
+		const worker = createWorker(texts);
+		assert.deepStrictEqual(await getImages(worker, 5), []);
+		assert.deepStrictEqual(await getImages(worker, 6), []);
+	});
+
+	it('leaves out the previews that are turned off', async () => {
+		const worker = createWorker(texts, 'template', {
+			hover: { gradients: false, easings: false }
+		});
+		assert.deepStrictEqual(await getImages(worker, 0), []);
+		assert.deepStrictEqual(await getImages(worker, 3), []);
+		assert.strictEqual((await getImages(worker, 1)).length, 1);
+	});
+});
+
+describe('CSSInJSWorker inlay hints', () => {
+	const texts = {
+		'file:///hints': [
+			'margin: 1.5rem .5em;',
+			'width: calc(100px - 2rem);',
+			'height: calc(2 * (10px + 5px) / 3);',
+			'top: calc(100% - 10px);',
+			'left: calc(${x} + 1px);',
+			"content: '2rem'; /* 3rem */",
+			'padding: 10px;'
+		].join('\n')
+	};
+	const all = range(0, 0, 7, 0);
+
+	function hints(result) {
+		return result.map((hint) => [hint.position.line, hint.position.character, hint.text]);
+	}
+
+	it('shows rem lengths in pixels and evaluates constant calc() expressions', async () => {
+		const worker = createWorker(texts);
+		assert.deepStrictEqual(hints(await worker.getInlayHints('file:///hints', all)), [
+			[0, 14, '= 24px'],
+			[0, 19, '= 8px'],
+			[1, 25, '= 68px'],
+			[2, 34, '= 10px']
+		]);
+	});
+
+	it('shows negative lengths with their sign', async () => {
+		const worker = createWorker({ 'file:///negative': 'padding: -1.5rem 2rem;\nmargin: 0 -.5em;' });
+		assert.deepStrictEqual(
+			hints(await worker.getInlayHints('file:///negative', range(0, 0, 2, 0))),
+			[
+				[0, 16, '= -24px'],
+				[0, 21, '= 32px'],
+				[1, 15, '= -8px']
+			]
+		);
+	});
+
+	it('only answers for the requested range', async () => {
+		const worker = createWorker(texts);
+		assert.deepStrictEqual(hints(await worker.getInlayHints('file:///hints', range(1, 0, 1, 30))), [
+			[1, 25, '= 68px']
+		]);
+	});
+
+	it('converts with the root font size of the options', async () => {
+		const worker = createWorker(texts, 'template', { inlayHints: { rootFontSize: 10 } });
+		assert.deepStrictEqual(
+			hints(await worker.getInlayHints('file:///hints', all)).map((hint) => hint[2]),
+			['= 15px', '= 5px', '= 80px', '= 10px']
+		);
+	});
+});
+
+describe('CSSInJSWorker browser compatibility', () => {
+	const data = {
+		version: 1.1,
+		properties: [
+			{ name: 'legacy-prop', browsers: ['IE6', 'FF80-'] },
+			{ name: 'retired-prop', browsers: ['IE1', 'FF70-', 'C1'] },
+			{
+				name: 'modern-prop',
+				browsers: ['FF70', 'C80'],
+				values: [{ name: 'fancy', browsers: ['C90'] }, { name: 'plain' }]
+			},
+			{ name: 'draft-prop', status: 'experimental' },
+			{ name: 'old-prop', status: 'obsolete' },
+			{ name: '-moz-thing', browsers: ['FF1'] }
+		],
+		atDirectives: [{ name: '@fancy-rule', browsers: ['C90'] }],
+		pseudoClasses: [{ name: ':fancy', browsers: ['IE1', 'FF1', 'C90'] }]
+	};
+	const texts = {
+		'file:///compat': [
+			'legacy-prop: 1;',
+			'retired-prop: 1;',
+			'modern-prop: fancy plain;',
+			'draft-prop: 1; old-prop: 1;',
+			'-moz-thing: 1;',
+			'@fancy-rule {}',
+			'&:fancy { color: red; }'
+		].join('\n')
+	};
+	const compat = {
+		browsers: ['ie 11', 'firefox 78', 'chrome 85'],
+		unsupported: 'warning',
+		experimental: 'warning',
+		obsolete: 'error'
+	};
+
+	function createCompatWorker(compatOptions, options = {}) {
+		return createWorker(texts, 'template', {
+			compat: compatOptions,
+			data: { dataProviders: { custom: data } },
+			lint: { emptyRules: 'ignore' },
+			...options
+		});
+	}
+
+	function compatDiagnostics(diagnostics) {
+		return diagnostics
+			.filter((diagnostic) => diagnostic.code === 'compatibility')
+			.map((diagnostic) => [diagnostic.range, diagnostic.message, diagnostic.severity]);
+	}
+
+	it('reports what the target browsers do not support', async () => {
+		const diagnostics = await createCompatWorker(compat).doValidation('file:///compat');
+		assert.deepStrictEqual(compatDiagnostics(diagnostics), [
+			[range(0, 0, 0, 11), 'Property `legacy-prop` is not supported by Chrome 85', 2],
+			[range(1, 0, 1, 12), 'Property `retired-prop` is not supported by Firefox 78', 2],
+			[range(2, 0, 2, 11), 'Property `modern-prop` is not supported by Internet Explorer 11', 2],
+			[
+				range(2, 13, 2, 18),
+				'Value `fancy` is not supported by Internet Explorer 11, Firefox 78, Chrome 85',
+				2
+			],
+			[range(3, 0, 3, 10), 'Property `draft-prop` is experimental', 2],
+			[range(3, 15, 3, 23), 'Property `old-prop` is obsolete', 1],
+			[
+				range(5, 0, 5, 11),
+				'At-rule `@fancy-rule` is not supported by Internet Explorer 11, Firefox 78, Chrome 85',
+				2
+			],
+			[range(6, 1, 6, 7), 'Selector `:fancy` is not supported by Chrome 85', 2]
+		]);
+	});
+
+	it('reports nothing without target browsers or with validation turned off', async () => {
+		const withoutTargets = createCompatWorker({ ...compat, browsers: [] });
+		assert.deepStrictEqual(
+			compatDiagnostics(await withoutTargets.doValidation('file:///compat')),
+			[]
+		);
+		const unknownTargets = createCompatWorker({
+			...compat,
+			browsers: ['> 1%', 'netscape 4']
+		});
+		assert.deepStrictEqual(
+			compatDiagnostics(await unknownTargets.doValidation('file:///compat')),
+			[]
+		);
+		const off = createCompatWorker(compat, { validate: false });
+		assert.deepStrictEqual(await off.doValidation('file:///compat'), []);
+	});
+
+	it('checks the declarations after an unquoted url', async () => {
+		const worker = createWorker(
+			{ 'file:///url': 'background: url(http://example.com/a.png); modern-prop: fancy;' },
+			'template',
+			{ compat, data: { dataProviders: { custom: data } } }
+		);
+		assert.deepStrictEqual(
+			compatDiagnostics(await worker.doValidation('file:///url')).map((entry) => entry[0]),
+			[range(0, 43, 0, 54), range(0, 56, 0, 61)]
+		);
+	});
+
+	it('leaves out the levels set to ignore', async () => {
+		const worker = createCompatWorker({
+			...compat,
+			unsupported: 'ignore',
+			experimental: 'ignore'
+		});
+		assert.deepStrictEqual(
+			compatDiagnostics(await worker.doValidation('file:///compat')).map((entry) => entry[1]),
+			['Property `old-prop` is obsolete']
+		);
+	});
+});
+
+describe('CSSInJSWorker lint rules', () => {
+	const texts = {
+		'file:///lint': 'color: red !important;\n&:hover, &:focus {\n  margin: ${m}px;\n}',
+		'file:///embedded':
+			'const A = styled.div`\n  padding: 0 !important;\n`;\nconst B = css`color: blue;`;'
+	};
+	const noImportant = {
+		id: 'no-important',
+		check(stylesheet, context) {
+			const visit = ({ declarations, rulesets }) => {
+				for (const declaration of declarations) {
+					if (declaration.important) {
+						context.report(declaration.propertySpan, 'Avoid !important', {
+							title: 'Remove !important',
+							edits: [{ start: declaration.valueSpan.end, end: declaration.end, newText: '' }]
+						});
+					}
+				}
+				rulesets.forEach(visit);
+			};
+			visit(stylesheet);
+		}
+	};
+
+	function createLintWorker(rules, syntax = 'template', options = {}) {
+		const worker = createWorker(texts, syntax, options);
+		worker.setLintRules(rules);
+		return worker;
+	}
+
+	it('gives the rules the styles of the user text', async () => {
+		let seen;
+		const worker = createLintWorker([
+			{ rule: { id: 'spy', check: (stylesheet) => (seen = stylesheet) }, severity: 'warning' }
+		]);
+		await worker.doValidation('file:///lint');
+		const text = texts['file:///lint'];
+		const [declaration] = seen.declarations;
+		assert.strictEqual(seen.text, text);
+		assert.deepStrictEqual(
+			[declaration.property, declaration.value, declaration.important],
+			['color', 'red', true]
+		);
+		assert.strictEqual(text.substring(declaration.start, declaration.end), 'color: red !important');
+		const [ruleset] = seen.rulesets;
+		assert.strictEqual(ruleset.selector, '&:hover, &:focus');
+		assert.deepStrictEqual(
+			ruleset.declarations.map((declaration) => [declaration.property, declaration.value]),
+			[['margin', '${m}px']]
+		);
+	});
+
+	it('reports the problems of a rule with its severity', async () => {
+		const worker = createLintWorker([{ rule: noImportant, severity: 'error' }]);
+		const diagnostics = await worker.doValidation('file:///lint');
+		assert.deepStrictEqual(
+			diagnostics.map((diagnostic) => [diagnostic.range, diagnostic.code, diagnostic.severity]),
+			[[range(0, 0, 0, 5), 'no-important', 1]]
+		);
+	});
+
+	it('reports in the tagged templates of JavaScript models', async () => {
+		const worker = createLintWorker([{ rule: noImportant, severity: 'warning' }], 'embedded');
+		const diagnostics = await worker.doValidation('file:///embedded');
+		assert.deepStrictEqual(
+			diagnostics.map((diagnostic) => [diagnostic.range, diagnostic.severity]),
+			[[range(1, 2, 1, 9), 2]]
+		);
+	});
+
+	it('offers the fix of a problem as a code action', async () => {
+		const worker = createLintWorker([{ rule: noImportant, severity: 'warning' }]);
+		const [diagnostic] = await worker.doValidation('file:///lint');
+		const actions = await worker.doCodeActions('file:///lint', diagnostic.range, {
+			diagnostics: [diagnostic]
+		});
+		const fix = actions.filter((action) => action.title === 'Remove !important')[0];
+		assert.deepStrictEqual(fix.arguments, [
+			'file:///lint',
+			1,
+			[{ range: range(0, 10, 0, 21), newText: '' }]
+		]);
+		const unrelated = await worker.doCodeActions('file:///lint', diagnostic.range, {
+			diagnostics: [{ ...diagnostic, code: 'other' }]
+		});
+		assert.strictEqual(
+			unrelated.filter((action) => action.title === 'Remove !important').length,
+			0
+		);
+	});
+
+	it('reports a rule that throws instead of failing the validation', async () => {
+		const worker = createLintWorker([
+			{
+				rule: {
+					id: 'broken',
+					check() {
+						throw new Error('oops');
+					}
+				},
+				severity: 'warning'
+			},
+			{ rule: noImportant, severity: 'warning' }
+		]);
+		const diagnostics = await worker.doValidation('file:///lint');
+		assert.deepStrictEqual(
+			diagnostics.map((diagnostic) => diagnostic.message),
+			['Lint rule `broken` failed: oops', 'Avoid !important']
+		);
+	});
+
+	it('runs no rules that are ignored or when validation is off', async () => {
+		const ignored = createLintWorker([{ rule: noImportant, severity: 'ignore' }]);
+		assert.deepStrictEqual(await ignored.doValidation('file:///lint'), []);
+		const off = createLintWorker([{ rule: noImportant, severity: 'error' }], 'template', {
+			validate: false
+		});
+		assert.deepStrictEqual(await off.doValidation('file:///lint'), []);
+	});
+});